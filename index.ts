@@ -1,412 +1,22 @@
 #!/usr/bin/env node
-import { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import { readFileSync } from "node:fs";
 import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
-import {
-  CallToolRequest,
-  CallToolRequestSchema,
-  ListToolsRequestSchema,
-  Tool,
-} from "@modelcontextprotocol/sdk/types.js";
-
-// Node.js doesn't have fetch by default, so we need to ensure it's available
-import { fetch, Response, Request, Headers } from "undici";
-import { URLSearchParams } from "url";
-
-// Define Slack API response types
-interface SlackApiResponse {
-  ok: boolean;
-  error?: string;
-}
-
-interface SlackChannelResponse extends SlackApiResponse {
-  channel?: {
-    is_archived: boolean;
-    [key: string]: any;
-  };
-}
-
-interface SlackChannelsResponse extends SlackApiResponse {
-  channels: any[];
-  response_metadata: { next_cursor: string };
-}
-
-interface SlackMessageResponse extends SlackApiResponse {
-  ts?: string;
-  channel?: string;
-}
-
-// Type definitions for tool arguments
-interface ListChannelsArgs {
-  limit?: number;
-  cursor?: string;
-}
-
-interface PostMessageArgs {
-  channel_id: string;
-  text: string;
-}
-
-interface ReplyToThreadArgs {
-  channel_id: string;
-  thread_ts: string;
-  text: string;
-}
-
-interface AddReactionArgs {
-  channel_id: string;
-  timestamp: string;
-  reaction: string;
-}
-
-interface GetChannelHistoryArgs {
-  channel_id: string;
-  limit?: number;
-}
-
-interface GetThreadRepliesArgs {
-  channel_id: string;
-  thread_ts: string;
-}
-
-interface GetUsersArgs {
-  cursor?: string;
-  limit?: number;
-}
-
-interface GetUserProfileArgs {
-  user_id: string;
-}
-
-// Tool definitions
-const listChannelsTool: Tool = {
-  name: "slack_list_channels",
-  description: "List public or pre-defined channels in the workspace with pagination",
-  inputSchema: {
-    type: "object",
-    properties: {
-      limit: {
-        type: "number",
-        description:
-          "Maximum number of channels to return (default 100, max 200)",
-        default: 100,
-      },
-      cursor: {
-        type: "string",
-        description: "Pagination cursor for next page of results",
-      },
-    },
-  },
-};
-
-const postMessageTool: Tool = {
-  name: "slack_post_message",
-  description: "Post a new message to a Slack channel",
-  inputSchema: {
-    type: "object",
-    properties: {
-      channel_id: {
-        type: "string",
-        description: "The ID of the channel to post to",
-      },
-      text: {
-        type: "string",
-        description: "The message text to post",
-      },
-    },
-    required: ["channel_id", "text"],
-  },
-};
-
-const replyToThreadTool: Tool = {
-  name: "slack_reply_to_thread",
-  description: "Reply to a specific message thread in Slack",
-  inputSchema: {
-    type: "object",
-    properties: {
-      channel_id: {
-        type: "string",
-        description: "The ID of the channel containing the thread",
-      },
-      thread_ts: {
-        type: "string",
-        description: "The timestamp of the parent message in the format '1234567890.123456'. Timestamps in the format without the period can be converted by adding the period such that 6 numbers come after it.",
-      },
-      text: {
-        type: "string",
-        description: "The reply text",
-      },
-    },
-    required: ["channel_id", "thread_ts", "text"],
-  },
-};
-
-const addReactionTool: Tool = {
-  name: "slack_add_reaction",
-  description: "Add a reaction emoji to a message",
-  inputSchema: {
-    type: "object",
-    properties: {
-      channel_id: {
-        type: "string",
-        description: "The ID of the channel containing the message",
-      },
-      timestamp: {
-        type: "string",
-        description: "The timestamp of the message to react to",
-      },
-      reaction: {
-        type: "string",
-        description: "The name of the emoji reaction (without ::)",
-      },
-    },
-    required: ["channel_id", "timestamp", "reaction"],
-  },
-};
-
-const getChannelHistoryTool: Tool = {
-  name: "slack_get_channel_history",
-  description: "Get recent messages from a channel",
-  inputSchema: {
-    type: "object",
-    properties: {
-      channel_id: {
-        type: "string",
-        description: "The ID of the channel",
-      },
-      limit: {
-        type: "number",
-        description: "Number of messages to retrieve (default 10)",
-        default: 10,
-      },
-    },
-    required: ["channel_id"],
-  },
-};
-
-const getThreadRepliesTool: Tool = {
-  name: "slack_get_thread_replies",
-  description: "Get all replies in a message thread",
-  inputSchema: {
-    type: "object",
-    properties: {
-      channel_id: {
-        type: "string",
-        description: "The ID of the channel containing the thread",
-      },
-      thread_ts: {
-        type: "string",
-        description: "The timestamp of the parent message in the format '1234567890.123456'. Timestamps in the format without the period can be converted by adding the period such that 6 numbers come after it.",
-      },
-    },
-    required: ["channel_id", "thread_ts"],
-  },
-};
-
-const getUsersTool: Tool = {
-  name: "slack_get_users",
-  description:
-    "Get a list of all users in the workspace with their basic profile information",
-  inputSchema: {
-    type: "object",
-    properties: {
-      cursor: {
-        type: "string",
-        description: "Pagination cursor for next page of results",
-      },
-      limit: {
-        type: "number",
-        description: "Maximum number of users to return (default 100, max 200)",
-        default: 100,
-      },
-    },
-  },
-};
-
-const getUserProfileTool: Tool = {
-  name: "slack_get_user_profile",
-  description: "Get detailed profile information for a specific user",
-  inputSchema: {
-    type: "object",
-    properties: {
-      user_id: {
-        type: "string",
-        description: "The ID of the user",
-      },
-    },
-    required: ["user_id"],
-  },
-};
-
-class SlackClient {
-  private botHeaders: { Authorization: string; "Content-Type": string };
-
-  constructor(botToken: string) {
-    this.botHeaders = {
-      Authorization: `Bearer ${botToken}`,
-      "Content-Type": "application/json",
-    };
-  }
-
-  async getChannels(limit: number = 100, cursor?: string): Promise<any> {
-    const predefinedChannelIds = process.env.SLACK_CHANNEL_IDS;
-    if (!predefinedChannelIds) {
-      const params = new URLSearchParams({
-        types: "public_channel",
-        exclude_archived: "true",
-        limit: Math.min(limit, 200).toString(),
-        team_id: process.env.SLACK_TEAM_ID!,
-      });
-  
-      if (cursor) {
-        params.append("cursor", cursor);
-      }
-  
-      const response = await fetch(
-        `https://slack.com/api/conversations.list?${params}`,
-        { headers: this.botHeaders },
-      );
-  
-      const data = await response.json();
-      return data as SlackChannelsResponse;
-    }
-
-    const predefinedChannelIdsArray = predefinedChannelIds.split(",").map((id: string) => id.trim());
-    const channels = [];
-
-    for (const channelId of predefinedChannelIdsArray) {
-      const params = new URLSearchParams({
-        channel: channelId,
-      });
-
-      const response = await fetch(
-        `https://slack.com/api/conversations.info?${params}`,
-        { headers: this.botHeaders }
-      );
-      const data = await response.json() as { ok: boolean; channel?: { is_archived: boolean; [key: string]: any } };
-
-      if (data.ok && data.channel && !data.channel.is_archived) {
-        channels.push(data.channel);
-      }
-    }
-
-    return {
-      ok: true,
-      channels: channels,
-      response_metadata: { next_cursor: "" },
-    };
-  }
-
-  async postMessage(channel_id: string, text: string): Promise<any> {
-    const response = await fetch("https://slack.com/api/chat.postMessage", {
-      method: "POST",
-      headers: this.botHeaders,
-      body: JSON.stringify({
-        channel: channel_id,
-        text: text,
-      }),
-    });
-
-    return response.json();
-  }
-
-  async postReply(
-    channel_id: string,
-    thread_ts: string,
-    text: string,
-  ): Promise<any> {
-    const response = await fetch("https://slack.com/api/chat.postMessage", {
-      method: "POST",
-      headers: this.botHeaders,
-      body: JSON.stringify({
-        channel: channel_id,
-        thread_ts: thread_ts,
-        text: text,
-      }),
-    });
-
-    return response.json();
-  }
-
-  async addReaction(
-    channel_id: string,
-    timestamp: string,
-    reaction: string,
-  ): Promise<any> {
-    const response = await fetch("https://slack.com/api/reactions.add", {
-      method: "POST",
-      headers: this.botHeaders,
-      body: JSON.stringify({
-        channel: channel_id,
-        timestamp: timestamp,
-        name: reaction,
-      }),
-    });
-
-    return response.json();
-  }
-
-  async getChannelHistory(
-    channel_id: string,
-    limit: number = 10,
-  ): Promise<any> {
-    const params = new URLSearchParams({
-      channel: channel_id,
-      limit: limit.toString(),
-    });
-
-    const response = await fetch(
-      `https://slack.com/api/conversations.history?${params}`,
-      { headers: this.botHeaders },
-    );
-
-    return response.json();
-  }
-
-  async getThreadReplies(channel_id: string, thread_ts: string): Promise<any> {
-    const params = new URLSearchParams({
-      channel: channel_id,
-      ts: thread_ts,
-    });
-
-    const response = await fetch(
-      `https://slack.com/api/conversations.replies?${params}`,
-      { headers: this.botHeaders },
-    );
-
-    return response.json();
-  }
-
-  async getUsers(limit: number = 100, cursor?: string): Promise<any> {
-    const params = new URLSearchParams({
-      limit: Math.min(limit, 200).toString(),
-      team_id: process.env.SLACK_TEAM_ID!,
-    });
-
-    if (cursor) {
-      params.append("cursor", cursor);
-    }
-
-    const response = await fetch(`https://slack.com/api/users.list?${params}`, {
-      headers: this.botHeaders,
-    });
-
-    return response.json();
-  }
-
-  async getUserProfile(user_id: string): Promise<any> {
-    const params = new URLSearchParams({
-      user: user_id,
-      include_labels: "true",
-    });
-
-    const response = await fetch(
-      `https://slack.com/api/users.profile.get?${params}`,
-      { headers: this.botHeaders },
-    );
-
-    return response.json();
-  }
-}
+import { SlackClient, parseChannelIds } from "./src/slack-client.js";
+import { PendingActions, loadApprovalConfig } from "./src/approval.js";
+import { AuditLog, ConsoleAuditSink } from "./src/audit.js";
+import { JsonlAuditSink } from "./src/audit-file.js";
+import { BufferedEvent, EventLog, normalizeEvent } from "./src/events.js";
+import { LruStore, MemoryStore } from "./src/kv.js";
+import { MessageLedger } from "./src/ledger.js";
+import { Policy, inReadScope, loadPolicy } from "./src/policy.js";
+import { Redactor, loadRedaction } from "./src/redaction.js";
+import { Authenticator, loadAuthConfig } from "./src/auth.js";
+import { handleMcpRequest } from "./src/mcp-http.js";
+import { createServer } from "./src/server.js";
+import { serveHttp } from "./src/node-http.js";
+import { SocketModeClient } from "./src/socket-mode.js";
+import { SessionManager } from "./src/streamable-http.js";
+import { getRecentEventsTool } from "./src/tools/events.js";
 
 async function main() {
   const botToken = process.env.SLACK_BOT_TOKEN;
@@ -420,183 +30,136 @@ async function main() {
   }
 
   console.error("Starting Slack MCP Server...");
-  const server = new Server(
-    {
-      name: "Slack MCP Server",
-      version: "1.0.0",
-    },
-    {
-      capabilities: {
-        tools: {},
-      },
-    },
-  );
-
-  const slackClient = new SlackClient(botToken);
-
-  server.setRequestHandler(
-    CallToolRequestSchema,
-    async (request: CallToolRequest) => {
-      console.error("Received CallToolRequest:", request);
-      try {
-        if (!request.params.arguments) {
-          throw new Error("No arguments provided");
-        }
-
-        switch (request.params.name) {
-          case "slack_list_channels": {
-            const args = request.params
-              .arguments as unknown as ListChannelsArgs;
-            const response = await slackClient.getChannels(
-              args.limit,
-              args.cursor,
-            );
-            return {
-              content: [{ type: "text", text: JSON.stringify(response) }],
-            };
-          }
+  const slackClient = new SlackClient(botToken, {
+    teamId,
+    channelIds: parseChannelIds(process.env.SLACK_CHANNEL_IDS),
+    apiUrl: process.env.SLACK_API_URL,
+    cache: new LruStore(),
+    ledger: new MessageLedger(new MemoryStore()),
+  });
 
-          case "slack_post_message": {
-            const args = request.params.arguments as unknown as PostMessageArgs;
-            if (!args.channel_id || !args.text) {
-              throw new Error(
-                "Missing required arguments: channel_id and text",
-              );
-            }
-            const response = await slackClient.postMessage(
-              args.channel_id,
-              args.text,
-            );
-            return {
-              content: [{ type: "text", text: JSON.stringify(response) }],
-            };
-          }
+  // SLACK_POLICY_FILE points at the policy JSON; SLACK_POLICY holds it inline
+  let policy: Policy | undefined;
+  try {
+    const policyFile = process.env.SLACK_POLICY_FILE;
+    policy = loadPolicy({
+      SLACK_POLICY: policyFile ? readFileSync(policyFile, "utf8") : process.env.SLACK_POLICY,
+    });
+  } catch (error) {
+    console.error("Invalid policy:", error instanceof Error ? error.message : error);
+    process.exit(1);
+  }
 
-          case "slack_reply_to_thread": {
-            const args = request.params
-              .arguments as unknown as ReplyToThreadArgs;
-            if (!args.channel_id || !args.thread_ts || !args.text) {
-              throw new Error(
-                "Missing required arguments: channel_id, thread_ts, and text",
-              );
-            }
-            const response = await slackClient.postReply(
-              args.channel_id,
-              args.thread_ts,
-              args.text,
-            );
-            return {
-              content: [{ type: "text", text: JSON.stringify(response) }],
-            };
-          }
+  let redaction: Redactor | undefined;
+  try {
+    redaction = loadRedaction(process.env);
+  } catch (error) {
+    console.error(error instanceof Error ? error.message : error);
+    process.exit(1);
+  }
 
-          case "slack_add_reaction": {
-            const args = request.params.arguments as unknown as AddReactionArgs;
-            if (!args.channel_id || !args.timestamp || !args.reaction) {
-              throw new Error(
-                "Missing required arguments: channel_id, timestamp, and reaction",
-              );
-            }
-            const response = await slackClient.addReaction(
-              args.channel_id,
-              args.timestamp,
-              args.reaction,
-            );
-            return {
-              content: [{ type: "text", text: JSON.stringify(response) }],
-            };
-          }
+  // SLACK_DRY_RUN holds every outbound message until it is confirmed
+  let approvals: PendingActions;
+  let dryRun: boolean;
+  try {
+    const approvalConfig = loadApprovalConfig(process.env);
+    approvals = new PendingActions(new MemoryStore(), approvalConfig.ttlSeconds);
+    dryRun = approvalConfig.dryRun;
+  } catch (error) {
+    console.error(error instanceof Error ? error.message : error);
+    process.exit(1);
+  }
 
-          case "slack_get_channel_history": {
-            const args = request.params
-              .arguments as unknown as GetChannelHistoryArgs;
-            if (!args.channel_id) {
-              throw new Error("Missing required argument: channel_id");
-            }
-            const response = await slackClient.getChannelHistory(
-              args.channel_id,
-              args.limit,
-            );
-            return {
-              content: [{ type: "text", text: JSON.stringify(response) }],
-            };
-          }
+  // SLACK_AUDIT_LOG_FILE keeps the audit log in a JSONL file; otherwise it
+  // goes to stderr, as stdout carries the protocol
+  const auditFile = process.env.SLACK_AUDIT_LOG_FILE;
+  const audit = new AuditLog(
+    auditFile ? new JsonlAuditSink(auditFile) : new ConsoleAuditSink(console.error),
+  );
 
-          case "slack_get_thread_replies": {
-            const args = request.params
-              .arguments as unknown as GetThreadRepliesArgs;
-            if (!args.channel_id || !args.thread_ts) {
-              throw new Error(
-                "Missing required arguments: channel_id and thread_ts",
-              );
-            }
-            const response = await slackClient.getThreadReplies(
-              args.channel_id,
-              args.thread_ts,
-            );
-            return {
-              content: [{ type: "text", text: JSON.stringify(response) }],
-            };
+  // SLACK_APP_TOKEN receives events over Socket Mode, without a public URL
+  const appToken = process.env.SLACK_APP_TOKEN;
+  const events = appToken ? new EventLog() : undefined;
+  // Set once the stdio server is up, to tell its client about new events
+  let notify: ((event: BufferedEvent) => void) | undefined;
+  if (appToken && events) {
+    if (!appToken.startsWith("xapp-")) {
+      console.error("SLACK_APP_TOKEN must be an app-level token starting with xapp-");
+      process.exit(1);
+    }
+    new SocketModeClient(
+      new SlackClient(appToken, { teamId, apiUrl: process.env.SLACK_API_URL }),
+      {
+        onEvent: (payload) => {
+          const event = normalizeEvent(payload);
+          if (!event || (payload.team_id && payload.team_id !== teamId)) {
+            return;
           }
-
-          case "slack_get_users": {
-            const args = request.params.arguments as unknown as GetUsersArgs;
-            const response = await slackClient.getUsers(
-              args.limit,
-              args.cursor,
-            );
-            return {
-              content: [{ type: "text", text: JSON.stringify(response) }],
-            };
+          const buffered = events.append(event);
+          if (buffered) {
+            notify?.(buffered);
           }
+        },
+      },
+    ).start();
+  }
 
-          case "slack_get_user_profile": {
-            const args = request.params
-              .arguments as unknown as GetUserProfileArgs;
-            if (!args.user_id) {
-              throw new Error("Missing required argument: user_id");
-            }
-            const response = await slackClient.getUserProfile(args.user_id);
-            return {
-              content: [{ type: "text", text: JSON.stringify(response) }],
-            };
-          }
+  // MCP_HTTP_PORT serves the Streamable HTTP transport instead of stdio
+  const httpPort = process.env.MCP_HTTP_PORT;
+  if (httpPort) {
+    const auth = new Authenticator(loadAuthConfig(process.env));
+    if (!auth.configured) {
+      console.error(
+        "Please set MCP_API_KEYS, MCP_OAUTH_ISSUER or MCP_AUTH_DISABLED=true to serve over HTTP",
+      );
+      process.exit(1);
+    }
+    const sessions = new SessionManager();
+    await serveHttp(Number(httpPort), (request) =>
+      handleMcpRequest(request, auth, sessions, (caller) => ({
+        slack: slackClient,
+        caller,
+        events,
+        policy,
+        approvals,
+        dryRun,
+        audit,
+        redaction,
+      })),
+    );
+    console.error(`Slack MCP Server listening on http://localhost:${httpPort}`);
+    return;
+  }
 
-          default:
-            throw new Error(`Unknown tool: ${request.params.name}`);
-        }
-      } catch (error) {
-        console.error("Error executing tool:", error);
-        return {
-          content: [
-            {
-              type: "text",
-              text: JSON.stringify({
-                error: error instanceof Error ? error.message : String(error),
-              }),
-            },
-          ],
-        };
-      }
+  // Whoever runs the stdio server is trusted as far as MCP_ADMIN says
+  const server = createServer({
+    slack: slackClient,
+    caller: {
+      id: "local",
+      name: "local",
+      admin: process.env.MCP_ADMIN === "true",
     },
-  );
-
-  server.setRequestHandler(ListToolsRequestSchema, async () => {
-    console.error("Received ListToolsRequest");
-    return {
-      tools: [
-        listChannelsTool,
-        postMessageTool,
-        replyToThreadTool,
-        addReactionTool,
-        getChannelHistoryTool,
-        getThreadRepliesTool,
-        getUsersTool,
-        getUserProfileTool,
-      ],
-    };
+    events,
+    policy,
+    approvals,
+    dryRun,
+    audit,
+    redaction,
   });
 
+  // Pushed events are read data like any other, so they are limited to the
+  // channels the policy lets the event tools read and masked the same way
+  const scope = policy?.readScope(getRecentEventsTool.name);
+  notify = (event) => {
+    if (scope && !inReadScope(event.channel, scope)) {
+      return;
+    }
+    const pushed = redaction?.read === "mask" ? redaction.maskValue(event, {}) : event;
+    server
+      .notification({ method: "notifications/slack/event", params: { event: pushed } })
+      .catch((error) => console.error("Could not send event notification:", error));
+  };
+
   const transport = new StdioServerTransport();
   console.error("Connecting server to transport...");
   await server.connect(transport);
@@ -0,0 +1,93 @@
+// Outbound messages held for a human to approve: a dry run returns a preview
+// and a pending action ID instead of posting, and the message is only sent
+// once the action is confirmed.
+import { KeyValueStore } from "./kv.js";
+
+export interface ApprovalEnv {
+  // "true" holds every outbound message for approval
+  SLACK_DRY_RUN?: string;
+  // Seconds a pending action waits for approval before it expires
+  SLACK_PENDING_ACTION_TTL?: string;
+}
+
+export interface ApprovalConfig {
+  dryRun: boolean;
+  ttlSeconds: number;
+}
+
+const DEFAULT_PENDING_TTL_SECONDS = 15 * 60;
+// Workers KV does not accept expirations any shorter
+const MIN_PENDING_TTL_SECONDS = 60;
+
+export function loadApprovalConfig(env: ApprovalEnv): ApprovalConfig {
+  let ttlSeconds = DEFAULT_PENDING_TTL_SECONDS;
+  if (env.SLACK_PENDING_ACTION_TTL) {
+    ttlSeconds = Number(env.SLACK_PENDING_ACTION_TTL);
+    if (!Number.isInteger(ttlSeconds) || ttlSeconds < MIN_PENDING_TTL_SECONDS) {
+      throw new Error(
+        `SLACK_PENDING_ACTION_TTL must be a whole number of seconds, at least ${MIN_PENDING_TTL_SECONDS}`,
+      );
+    }
+  }
+  return { dryRun: env.SLACK_DRY_RUN === "true", ttlSeconds };
+}
+
+export interface PendingAction {
+  action_id: string;
+  tool: string;
+  // Arguments the tool runs with once the action is confirmed
+  args: Record<string, unknown>;
+  preview: unknown;
+  // Principal that created the action
+  caller?: string;
+  expires_at: string;
+}
+
+export class PendingActions {
+  private store: KeyValueStore;
+  readonly ttlSeconds: number;
+
+  constructor(store: KeyValueStore, ttlSeconds = DEFAULT_PENDING_TTL_SECONDS) {
+    this.store = store;
+    this.ttlSeconds = ttlSeconds;
+  }
+
+  private key(id: string): string {
+    return `pending:${id}`;
+  }
+
+  async create(
+    tool: string,
+    args: Record<string, unknown>,
+    preview: unknown,
+    caller?: string,
+  ): Promise<PendingAction> {
+    const action: PendingAction = {
+      action_id: crypto.randomUUID(),
+      tool,
+      args,
+      preview,
+      caller,
+      expires_at: new Date(Date.now() + this.ttlSeconds * 1000).toISOString(),
+    };
+    await this.store.put(this.key(action.action_id), JSON.stringify(action), {
+      expirationTtl: this.ttlSeconds,
+    });
+    return action;
+  }
+
+  // The action, unless it has expired or was already confirmed or cancelled
+  async get(id: string): Promise<PendingAction | undefined> {
+    const value = await this.store.get(this.key(id));
+    if (!value) {
+      return undefined;
+    }
+    const action: PendingAction = JSON.parse(value);
+    // KV may keep entries a little past their expiration
+    return Date.parse(action.expires_at) > Date.now() ? action : undefined;
+  }
+
+  async remove(id: string): Promise<void> {
+    await this.store.delete(this.key(id));
+  }
+}
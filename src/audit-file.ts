@@ -0,0 +1,44 @@
+// Audit sink for the stdio server: one JSON line per entry, appended to a
+// local file.
+import { appendFile, readFile } from "node:fs/promises";
+import { AuditEntry, AuditFilter, AuditSink, matchesFilter } from "./audit.js";
+
+export class JsonlAuditSink implements AuditSink {
+  private path: string;
+
+  constructor(path: string) {
+    this.path = path;
+  }
+
+  async write(entry: AuditEntry): Promise<void> {
+    await appendFile(this.path, `${JSON.stringify(entry)}\n`);
+  }
+
+  async query(filter: AuditFilter): Promise<AuditEntry[]> {
+    let content: string;
+    try {
+      content = await readFile(this.path, "utf8");
+    } catch (error: any) {
+      if (error?.code === "ENOENT") {
+        return [];
+      }
+      throw error;
+    }
+
+    const entries: AuditEntry[] = [];
+    const lines = content.split("\n");
+    // The file grows oldest first
+    for (let i = lines.length - 1; i >= 0 && entries.length < filter.limit; i--) {
+      let entry: AuditEntry;
+      try {
+        entry = JSON.parse(lines[i]);
+      } catch {
+        continue;
+      }
+      if (matchesFilter(entry, filter)) {
+        entries.push(entry);
+      }
+    }
+    return entries;
+  }
+}
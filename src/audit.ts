@@ -0,0 +1,346 @@
+// Audit log of tool calls: who called which tool with what, which Slack
+// methods that ran and how it ended. Entries go to a sink chosen by the
+// deployment; sinks that can be read back also serve slack_audit_query.
+import { CallToolResult, ErrorCode, McpError } from "@modelcontextprotocol/sdk/types.js";
+import { Principal } from "./auth.js";
+import { SlackApiError, ToolError } from "./errors.js";
+import { KeyValueStore } from "./kv.js";
+import { ID_ARGUMENTS, SECRET_PATTERNS } from "./policy.js";
+import { Redactor } from "./redaction.js";
+
+export type AuditStatus = "ok" | "error" | "rejected";
+
+export interface AuditEntry {
+  id: string;
+  time: string;
+  caller_id?: string;
+  caller_name?: string;
+  tool: string;
+  args: Record<string, unknown>;
+  channel_id?: string;
+  // Slack Web API methods the call invoked, in order, retries included
+  slack_methods: string[];
+  // "rejected" calls never ran: unknown tool, bad arguments or not allowed
+  status: AuditStatus;
+  error?: string;
+  // ts of the message the call posted or changed
+  ts?: string;
+  // Pending action a dry run created or confirmed
+  action_id?: string;
+  latency_ms: number;
+}
+
+export interface AuditFilter {
+  caller_id?: string;
+  tool?: string;
+  channel_id?: string;
+  status?: AuditStatus;
+  // ISO-8601 bounds on `time`
+  since?: string;
+  until?: string;
+  limit: number;
+}
+
+export interface AuditSink {
+  write(entry: AuditEntry): Promise<void>;
+  // Matching entries, newest first; sinks that cannot be read back leave
+  // this out
+  query?(filter: AuditFilter): Promise<AuditEntry[]>;
+}
+
+// Arguments whose values are file contents rather than anything a reader of
+// the log needs
+const BINARY_ARGUMENTS = new Set(["content_base64", "blob"]);
+// Long strings are cut short so a single entry stays small
+const MAX_LOGGED_STRING = 4000;
+
+function redactValue(value: unknown, key?: string): unknown {
+  if (typeof value === "string") {
+    if (key && BINARY_ARGUMENTS.has(key)) {
+      return `[${value.length} characters omitted]`;
+    }
+    let text = value;
+    for (const pattern of SECRET_PATTERNS) {
+      text = text.replace(new RegExp(pattern.source, `${pattern.flags}g`), "[REDACTED]");
+    }
+    return text.length > MAX_LOGGED_STRING
+      ? `${text.slice(0, MAX_LOGGED_STRING)}... [${text.length - MAX_LOGGED_STRING} more characters]`
+      : text;
+  }
+  if (Array.isArray(value)) {
+    return value.map((item) => redactValue(item));
+  }
+  if (value && typeof value === "object") {
+    return Object.fromEntries(
+      Object.entries(value).map(([name, item]) => [name, redactValue(item, name)]),
+    );
+  }
+  return value;
+}
+
+// Arguments as they are logged: secrets masked, file contents left out, and
+// whatever the redaction detectors find masked too when they are configured
+export function redactArguments(
+  args: Record<string, unknown>,
+  redaction?: Redactor,
+): Record<string, unknown> {
+  const masked = redaction ? redaction.maskValue(args, {}, ID_ARGUMENTS) : args;
+  return redactValue(masked) as Record<string, unknown>;
+}
+
+export function matchesFilter(entry: AuditEntry, filter: AuditFilter): boolean {
+  return (
+    (!filter.caller_id || entry.caller_id === filter.caller_id) &&
+    (!filter.tool || entry.tool === filter.tool) &&
+    (!filter.channel_id || entry.channel_id === filter.channel_id) &&
+    (!filter.status || entry.status === filter.status) &&
+    (!filter.since || entry.time >= filter.since) &&
+    (!filter.until || entry.time < filter.until)
+  );
+}
+
+const PROTOCOL_ERRORS: Partial<Record<number, string>> = {
+  [ErrorCode.InvalidParams]: "invalid_params",
+  [ErrorCode.InvalidRequest]: "invalid_request",
+};
+
+// Status, error code and the ids a call produced, from its result or error
+function outcome(
+  result: CallToolResult | undefined,
+  error: unknown,
+): Pick<AuditEntry, "status" | "error" | "ts" | "action_id"> {
+  if (error instanceof McpError) {
+    return { status: "rejected", error: PROTOCOL_ERRORS[error.code] ?? "internal_error" };
+  }
+  if (error instanceof SlackApiError || error instanceof ToolError) {
+    return { status: "error", error: error.code };
+  }
+  if (error !== undefined || !result) {
+    return { status: "error", error: "internal_error" };
+  }
+
+  const text = result.content[0]?.type === "text" ? result.content[0].text : undefined;
+  let data: any;
+  try {
+    data = text ? JSON.parse(text) : undefined;
+  } catch {
+    data = undefined;
+  }
+  if (result.isError) {
+    return { status: "error", error: typeof data?.error === "string" ? data.error : "internal_error" };
+  }
+  return {
+    status: "ok",
+    ts: typeof data?.ts === "string" ? data.ts : undefined,
+    action_id: typeof data?.action_id === "string" ? data.action_id : undefined,
+  };
+}
+
+export class AuditLog {
+  private sink: AuditSink;
+
+  constructor(sink: AuditSink) {
+    this.sink = sink;
+  }
+
+  get queryable(): boolean {
+    return this.sink.query !== undefined;
+  }
+
+  /**
+   * Record one tool call. Pass the result it returned or the error it threw.
+   * A sink failure is logged rather than failing the call, which has
+   * already happened.
+   */
+  async record(call: {
+    caller?: Principal;
+    tool: string;
+    args: Record<string, unknown>;
+    redaction?: Redactor;
+    slackMethods: string[];
+    started: number;
+    result?: CallToolResult;
+    error?: unknown;
+  }): Promise<void> {
+    const entry: AuditEntry = {
+      id: crypto.randomUUID(),
+      time: new Date(call.started).toISOString(),
+      caller_id: call.caller?.id,
+      caller_name: call.caller?.name,
+      tool: call.tool,
+      args: redactArguments(call.args, call.redaction),
+      channel_id: typeof call.args.channel_id === "string" ? call.args.channel_id : undefined,
+      slack_methods: call.slackMethods,
+      ...outcome(call.result, call.error),
+      latency_ms: Date.now() - call.started,
+    };
+    try {
+      await this.sink.write(entry);
+    } catch (error) {
+      console.error("Could not write the audit log:", error);
+    }
+  }
+
+  async query(filter: AuditFilter): Promise<AuditEntry[]> {
+    if (!this.sink.query) {
+      throw new ToolError("audit_not_queryable", "This server's audit log cannot be read back");
+    }
+    return this.sink.query(filter);
+  }
+}
+
+/**
+ * One JSON line per entry on the console, for log collectors such as
+ * Workers Logpush. Pass console.error where stdout carries the protocol.
+ */
+export class ConsoleAuditSink implements AuditSink {
+  private log: (line: string) => void;
+
+  constructor(log: (line: string) => void = console.log) {
+    this.log = log;
+  }
+
+  async write(entry: AuditEntry): Promise<void> {
+    this.log(JSON.stringify({ audit: entry }));
+  }
+}
+
+// The parts of Workers KV listing used here, typed locally like
+// KeyValueStore
+export interface ListableKeyValueStore extends KeyValueStore {
+  list(options: { prefix: string; limit?: number; cursor?: string }): Promise<{
+    keys: { name: string }[];
+    list_complete: boolean;
+    cursor?: string;
+  }>;
+}
+
+// How long entries are kept in KV
+const KV_AUDIT_TTL_SECONDS = 90 * 24 * 60 * 60;
+// Entries read back per query, at most, before filtering
+const KV_AUDIT_SCAN = 1000;
+// Sorts newest first, as KV lists keys in lexicographic order
+const MAX_TIME = 10 ** 15;
+
+export class KvAuditSink implements AuditSink {
+  private store: ListableKeyValueStore;
+
+  constructor(store: ListableKeyValueStore) {
+    this.store = store;
+  }
+
+  async write(entry: AuditEntry): Promise<void> {
+    const order = String(MAX_TIME - Date.parse(entry.time)).padStart(16, "0");
+    await this.store.put(`audit:${order}:${entry.id}`, JSON.stringify(entry), {
+      expirationTtl: KV_AUDIT_TTL_SECONDS,
+    });
+  }
+
+  async query(filter: AuditFilter): Promise<AuditEntry[]> {
+    const entries: AuditEntry[] = [];
+    let cursor: string | undefined;
+    let scanned = 0;
+    while (entries.length < filter.limit && scanned < KV_AUDIT_SCAN) {
+      const page = await this.store.list({ prefix: "audit:", limit: 100, cursor });
+      for (const { name } of page.keys) {
+        scanned++;
+        const value = await this.store.get(name);
+        const entry: AuditEntry | undefined = value ? JSON.parse(value) : undefined;
+        if (entry && matchesFilter(entry, filter) && entries.length < filter.limit) {
+          entries.push(entry);
+        }
+      }
+      if (page.list_complete) {
+        break;
+      }
+      cursor = page.cursor;
+    }
+    return entries;
+  }
+}
+
+// The parts of the D1 API used here, typed locally like KeyValueStore
+export interface D1DatabaseLike {
+  prepare(sql: string): {
+    bind(...values: unknown[]): {
+      run(): Promise<unknown>;
+      all<T>(): Promise<{ results: T[] }>;
+    };
+  };
+}
+
+const D1_SCHEMA = `CREATE TABLE IF NOT EXISTS audit_log (
+  id TEXT PRIMARY KEY,
+  time TEXT NOT NULL,
+  caller_id TEXT,
+  tool TEXT NOT NULL,
+  channel_id TEXT,
+  status TEXT NOT NULL,
+  entry TEXT NOT NULL
+)`;
+
+export class D1AuditSink implements AuditSink {
+  private db: D1DatabaseLike;
+  private ready?: Promise<unknown>;
+
+  constructor(db: D1DatabaseLike) {
+    this.db = db;
+  }
+
+  // Create the table on first use, once per isolate
+  private setUp(): Promise<unknown> {
+    this.ready ??= this.db
+      .prepare(D1_SCHEMA)
+      .bind()
+      .run()
+      .catch((error) => {
+        this.ready = undefined;
+        throw error;
+      });
+    return this.ready;
+  }
+
+  async write(entry: AuditEntry): Promise<void> {
+    await this.setUp();
+    await this.db
+      .prepare(
+        "INSERT INTO audit_log (id, time, caller_id, tool, channel_id, status, entry) VALUES (?, ?, ?, ?, ?, ?, ?)",
+      )
+      .bind(
+        entry.id,
+        entry.time,
+        entry.caller_id ?? null,
+        entry.tool,
+        entry.channel_id ?? null,
+        entry.status,
+        JSON.stringify(entry),
+      )
+      .run();
+  }
+
+  async query(filter: AuditFilter): Promise<AuditEntry[]> {
+    await this.setUp();
+    const conditions: string[] = [];
+    const values: unknown[] = [];
+    const columns: [string, string | undefined][] = [
+      ["caller_id = ?", filter.caller_id],
+      ["tool = ?", filter.tool],
+      ["channel_id = ?", filter.channel_id],
+      ["status = ?", filter.status],
+      ["time >= ?", filter.since],
+      ["time < ?", filter.until],
+    ];
+    for (const [condition, value] of columns) {
+      if (value) {
+        conditions.push(condition);
+        values.push(value);
+      }
+    }
+    const where = conditions.length > 0 ? `WHERE ${conditions.join(" AND ")}` : "";
+    const { results } = await this.db
+      .prepare(`SELECT entry FROM audit_log ${where} ORDER BY time DESC LIMIT ?`)
+      .bind(...values, filter.limit)
+      .all<{ entry: string }>();
+    return results.map((row) => JSON.parse(row.entry));
+  }
+}
@@ -0,0 +1,404 @@
+// Authentication for the HTTP transports: static API keys and OAuth 2.1
+// bearer tokens issued by an external authorization server.
+import { splitList } from "./config.js";
+import { base64UrlDecode } from "./encoding.js";
+
+export interface Principal {
+  // Stable identifier, e.g. "key:ci-bot" or "oauth:<sub>"
+  id: string;
+  name: string;
+  // Tools this caller may use; undefined means every tool
+  tools?: string[];
+  // May override safety restrictions, e.g. edit messages the server did
+  // not post
+  admin?: boolean;
+}
+
+interface ApiKeyConfig {
+  name: string;
+  key: string;
+  tools?: string[];
+  admin?: boolean;
+}
+
+interface OAuthConfig {
+  issuer: string;
+  audience?: string;
+  tools?: string[];
+  // Subjects or verified emails of OAuth users with admin rights
+  admins?: string[];
+}
+
+export interface AuthConfig {
+  disabled: boolean;
+  apiKeys: ApiKeyConfig[];
+  oauth?: OAuthConfig;
+}
+
+export interface AuthEnv {
+  MCP_AUTH_DISABLED?: string;
+  MCP_API_KEYS?: string;
+  MCP_OAUTH_ISSUER?: string;
+  MCP_OAUTH_AUDIENCE?: string;
+  MCP_OAUTH_TOOLS?: string;
+  MCP_OAUTH_ADMINS?: string;
+}
+
+export class AuthError extends Error {
+  readonly status: number;
+  // OAuth error code for the WWW-Authenticate challenge, if any
+  readonly challenge?: string;
+
+  constructor(message: string, status = 401, challenge?: string) {
+    super(message);
+    this.name = "AuthError";
+    this.status = status;
+    this.challenge = challenge;
+  }
+}
+
+const PROTECTED_RESOURCE_PATH = "/.well-known/oauth-protected-resource";
+const AUTHORIZATION_SERVER_PATH = "/.well-known/oauth-authorization-server";
+
+// Clock skew tolerated when checking exp and nbf
+const CLOCK_SKEW_SECONDS = 60;
+const METADATA_TTL_MS = 10 * 60 * 1000;
+
+/**
+ * Read auth settings from the environment. MCP_API_KEYS is a JSON array of
+ * `{ "name": "...", "key": "...", "tools": ["slack_list_channels"], "admin": true }`;
+ * omitting `tools` grants every tool.
+ */
+export function loadAuthConfig(env: AuthEnv): AuthConfig {
+  let apiKeys: ApiKeyConfig[] = [];
+  if (env.MCP_API_KEYS) {
+    const parsed = JSON.parse(env.MCP_API_KEYS);
+    if (!Array.isArray(parsed)) {
+      throw new Error("MCP_API_KEYS must be a JSON array");
+    }
+    apiKeys = parsed.map((entry, index) => {
+      if (typeof entry?.key !== "string" || entry.key.length === 0) {
+        throw new Error(`MCP_API_KEYS[${index}] is missing a key`);
+      }
+      return {
+        name: typeof entry.name === "string" ? entry.name : `key-${index}`,
+        key: entry.key,
+        tools: Array.isArray(entry.tools) ? entry.tools : undefined,
+        admin: entry.admin === true,
+      };
+    });
+  }
+
+  return {
+    disabled: env.MCP_AUTH_DISABLED === "true",
+    apiKeys,
+    oauth: env.MCP_OAUTH_ISSUER
+      ? {
+          issuer: env.MCP_OAUTH_ISSUER.replace(/\/+$/, ""),
+          audience: env.MCP_OAUTH_AUDIENCE,
+          tools: splitList(env.MCP_OAUTH_TOOLS),
+          admins: splitList(env.MCP_OAUTH_ADMINS),
+        }
+      : undefined,
+  };
+}
+
+function decodeJsonSegment(segment: string): any {
+  return JSON.parse(new TextDecoder().decode(base64UrlDecode(segment)));
+}
+
+async function sha256(value: string): Promise<Uint8Array> {
+  const digest = await crypto.subtle.digest(
+    "SHA-256",
+    new TextEncoder().encode(value),
+  );
+  return new Uint8Array(digest);
+}
+
+// Compare two secrets without leaking where they differ
+async function secretsEqual(a: string, b: string): Promise<boolean> {
+  const [left, right] = await Promise.all([sha256(a), sha256(b)]);
+  let diff = 0;
+  for (let i = 0; i < left.length; i++) {
+    diff |= left[i] ^ right[i];
+  }
+  return diff === 0;
+}
+
+interface JwtAlgorithm {
+  importParams: RsaHashedImportParams | EcKeyImportParams;
+  verifyParams: AlgorithmIdentifier | EcdsaParams;
+}
+
+const JWT_ALGORITHMS: Record<string, JwtAlgorithm> = {
+  RS256: {
+    importParams: { name: "RSASSA-PKCS1-v1_5", hash: "SHA-256" },
+    verifyParams: "RSASSA-PKCS1-v1_5",
+  },
+  ES256: {
+    importParams: { name: "ECDSA", namedCurve: "P-256" },
+    verifyParams: { name: "ECDSA", hash: "SHA-256" },
+  },
+};
+
+interface CachedValue<T> {
+  value: T;
+  expires: number;
+}
+
+/**
+ * Authenticates HTTP requests and serves the OAuth discovery documents that
+ * MCP clients use to find the authorization server.
+ */
+export class Authenticator {
+  private config: AuthConfig;
+  private metadata?: CachedValue<Record<string, any>>;
+  private jwks?: CachedValue<JsonWebKey[]>;
+
+  constructor(config: AuthConfig) {
+    this.config = config;
+  }
+
+  // True when there is some way to authenticate, or auth is explicitly off
+  get configured(): boolean {
+    return (
+      this.config.disabled ||
+      this.config.apiKeys.length > 0 ||
+      this.config.oauth !== undefined
+    );
+  }
+
+  async authenticate(request: Request): Promise<Principal> {
+    if (this.config.disabled) {
+      return { id: "anonymous", name: "anonymous" };
+    }
+
+    const authorization = request.headers.get("Authorization");
+    const match = authorization?.match(/^Bearer\s+(.+)$/i);
+    if (!match) {
+      throw new AuthError("Missing bearer token");
+    }
+    const token = match[1].trim();
+
+    for (const apiKey of this.config.apiKeys) {
+      if (await secretsEqual(token, apiKey.key)) {
+        return {
+          id: `key:${apiKey.name}`,
+          name: apiKey.name,
+          tools: apiKey.tools,
+          admin: apiKey.admin,
+        };
+      }
+    }
+
+    if (this.config.oauth && token.split(".").length === 3) {
+      return this.verifyAccessToken(token, request);
+    }
+
+    throw new AuthError("Invalid bearer token", 401, "invalid_token");
+  }
+
+  /**
+   * Serve the OAuth discovery documents. Returns undefined for any other path.
+   */
+  async handleDiscovery(request: Request): Promise<Response | undefined> {
+    const url = new URL(request.url);
+    if (url.pathname === PROTECTED_RESOURCE_PATH) {
+      if (!this.config.oauth) {
+        return new Response(null, { status: 404 });
+      }
+      return Response.json({
+        resource: this.resourceId(request),
+        authorization_servers: [this.config.oauth.issuer],
+        bearer_methods_supported: ["header"],
+      });
+    }
+
+    if (url.pathname === AUTHORIZATION_SERVER_PATH) {
+      if (!this.config.oauth) {
+        return new Response(null, { status: 404 });
+      }
+      // Clients following the 2025-03-26 spec look for this document on the
+      // MCP server itself, so mirror the issuer's copy
+      return Response.json(await this.issuerMetadata());
+    }
+
+    return undefined;
+  }
+
+  unauthorizedResponse(request: Request, error: AuthError): Response {
+    const headers: Record<string, string> = { "Content-Type": "application/json" };
+    if (error.status === 401) {
+      const params = [`realm="mcp"`];
+      if (this.config.oauth) {
+        params.push(
+          `resource_metadata="${new URL(PROTECTED_RESOURCE_PATH, request.url)}"`,
+        );
+      }
+      if (error.challenge) {
+        params.push(`error="${error.challenge}"`);
+      }
+      headers["WWW-Authenticate"] = `Bearer ${params.join(", ")}`;
+    }
+    return new Response(
+      JSON.stringify({
+        jsonrpc: "2.0",
+        id: null,
+        error: { code: -32001, message: error.message },
+      }),
+      { status: error.status, headers },
+    );
+  }
+
+  private resourceId(request: Request): string {
+    return new URL(request.url).origin;
+  }
+
+  private async issuerMetadata(): Promise<Record<string, any>> {
+    if (this.metadata && this.metadata.expires > Date.now()) {
+      return this.metadata.value;
+    }
+
+    const issuer = this.config.oauth!.issuer;
+    for (const path of [AUTHORIZATION_SERVER_PATH, "/.well-known/openid-configuration"]) {
+      const response = await fetch(`${issuer}${path}`);
+      if (response.ok) {
+        const value = (await response.json()) as Record<string, any>;
+        this.metadata = { value, expires: Date.now() + METADATA_TTL_MS };
+        return value;
+      }
+    }
+    throw new Error(`Could not load authorization server metadata from ${issuer}`);
+  }
+
+  private async signingKeys(): Promise<JsonWebKey[]> {
+    if (this.jwks && this.jwks.expires > Date.now()) {
+      return this.jwks.value;
+    }
+
+    const { jwks_uri } = await this.issuerMetadata();
+    if (!jwks_uri) {
+      throw new Error("Authorization server metadata has no jwks_uri");
+    }
+    const response = await fetch(jwks_uri);
+    const { keys } = (await response.json()) as { keys: JsonWebKey[] };
+    this.jwks = { value: keys ?? [], expires: Date.now() + METADATA_TTL_MS };
+    return this.jwks.value;
+  }
+
+  /**
+   * Check a token's signature against the issuer's keys. An unreachable JWKS,
+   * a key that cannot be imported or an undecodable signature mean the token
+   * cannot be trusted, so they fail authentication rather than the request.
+   */
+  private async verifySignature(
+    algorithm: JwtAlgorithm,
+    kid: string | undefined,
+    signedPart: string,
+    signatureSegment: string,
+  ): Promise<boolean> {
+    let keys: JsonWebKey[];
+    try {
+      keys = await this.signingKeys();
+    } catch (error) {
+      console.error("Could not load the token signing keys:", error);
+      throw new AuthError("Could not load the token signing keys", 401, "invalid_token");
+    }
+    const jwk = keys.find(
+      (key) => (key as { kid?: string }).kid === kid || (!kid && keys.length === 1),
+    );
+    if (!jwk) {
+      throw new AuthError("Unknown token signing key", 401, "invalid_token");
+    }
+
+    try {
+      const key = await crypto.subtle.importKey(
+        "jwk",
+        jwk,
+        algorithm.importParams,
+        false,
+        ["verify"],
+      );
+      return await crypto.subtle.verify(
+        algorithm.verifyParams,
+        key,
+        base64UrlDecode(signatureSegment),
+        new TextEncoder().encode(signedPart),
+      );
+    } catch (error) {
+      console.error("Could not verify the token signature:", error);
+      throw new AuthError("Invalid token signature", 401, "invalid_token");
+    }
+  }
+
+  private async verifyAccessToken(
+    token: string,
+    request: Request,
+  ): Promise<Principal> {
+    const oauth = this.config.oauth!;
+    const [headerSegment, payloadSegment, signatureSegment] = token.split(".");
+
+    let header: { alg?: string; kid?: string };
+    let claims: Record<string, any>;
+    try {
+      header = decodeJsonSegment(headerSegment);
+      claims = decodeJsonSegment(payloadSegment);
+    } catch {
+      throw new AuthError("Malformed access token", 401, "invalid_token");
+    }
+    if (!header || typeof header !== "object" || !claims || typeof claims !== "object") {
+      throw new AuthError("Malformed access token", 401, "invalid_token");
+    }
+
+    const algorithm = header.alg ? JWT_ALGORITHMS[header.alg] : undefined;
+    if (!algorithm) {
+      throw new AuthError(`Unsupported token algorithm ${header.alg}`, 401, "invalid_token");
+    }
+
+    const valid = await this.verifySignature(
+      algorithm,
+      header.kid,
+      `${headerSegment}.${payloadSegment}`,
+      signatureSegment,
+    );
+    if (!valid) {
+      throw new AuthError("Invalid token signature", 401, "invalid_token");
+    }
+
+    const now = Math.floor(Date.now() / 1000);
+    if (typeof claims.exp !== "number" || claims.exp + CLOCK_SKEW_SECONDS < now) {
+      throw new AuthError("Access token has expired", 401, "invalid_token");
+    }
+    if (typeof claims.nbf === "number" && claims.nbf - CLOCK_SKEW_SECONDS > now) {
+      throw new AuthError("Access token is not valid yet", 401, "invalid_token");
+    }
+    if (claims.iss !== oauth.issuer && claims.iss !== `${oauth.issuer}/`) {
+      throw new AuthError("Access token has the wrong issuer", 401, "invalid_token");
+    }
+
+    // Tokens must be minted for this server, not replayed from another one
+    const audience = oauth.audience ?? this.resourceId(request);
+    const audiences = Array.isArray(claims.aud) ? claims.aud : [claims.aud];
+    if (!audiences.includes(audience)) {
+      throw new AuthError("Access token has the wrong audience", 401, "invalid_token");
+    }
+
+    // The subject is the caller's identity, so tokens without one are refused
+    // rather than sharing a principal
+    if (typeof claims.sub !== "string" || claims.sub === "") {
+      throw new AuthError("Access token has no subject", 401, "invalid_token");
+    }
+    const subject = claims.sub;
+    const name = String(claims.email ?? claims.preferred_username ?? subject);
+    // Users can often set their own username or unverified email at the
+    // identity provider, so only the subject or a verified email counts
+    const email =
+      claims.email_verified === true && typeof claims.email === "string" ? claims.email : undefined;
+    return {
+      id: `oauth:${subject}`,
+      name,
+      tools: oauth.tools,
+      admin: oauth.admins?.some((admin) => admin === subject || admin === email) ?? false,
+    };
+  }
+}
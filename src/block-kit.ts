@@ -0,0 +1,221 @@
+// Block Kit support for outgoing messages: a compact "compose" format that
+// is validated against Slack's limits and expanded into blocks, plus the
+// plain-text fallback Slack shows in notifications.
+import { ErrorCode, McpError } from "@modelcontextprotocol/sdk/types.js";
+
+// Limits from https://api.slack.com/reference/block-kit
+const MAX_BLOCKS = 50;
+const MAX_SECTION_TEXT = 3000;
+const MAX_HEADER_TEXT = 150;
+const MAX_FIELDS = 10;
+const MAX_FIELD_TEXT = 2000;
+const MAX_CONTEXT_ELEMENTS = 10;
+const MAX_BUTTONS = 25;
+const MAX_BUTTON_TEXT = 75;
+
+export interface ComposeButton {
+  text: string;
+  url?: string;
+  value?: string;
+  action_id?: string;
+  style?: "primary" | "danger";
+}
+
+// One entry of the compose input; `type` picks which fields apply
+export interface ComposeItem {
+  type: "header" | "section" | "fields" | "context" | "divider" | "code" | "buttons";
+  text?: string;
+  fields?: string[];
+  elements?: string[];
+  language?: string;
+  buttons?: ComposeButton[];
+}
+
+export const COMPOSE_SCHEMA = {
+  type: "array",
+  description:
+    "Build the message from simple parts instead of raw blocks. Each item has a type: 'header' (text), 'section' (mrkdwn text, optional fields), 'fields' (up to 10 short mrkdwn strings shown in two columns), 'context' (elements: small mrkdwn strings), 'divider', 'code' (text, optional language) or 'buttons' (buttons: [{text, url}] link buttons).",
+  items: {
+    type: "object",
+    properties: {
+      type: {
+        type: "string",
+        enum: ["header", "section", "fields", "context", "divider", "code", "buttons"],
+      },
+      text: { type: "string" },
+      fields: { type: "array", items: { type: "string" } },
+      elements: { type: "array", items: { type: "string" } },
+      language: { type: "string" },
+      buttons: {
+        type: "array",
+        items: {
+          type: "object",
+          properties: {
+            text: { type: "string" },
+            url: { type: "string" },
+            value: { type: "string" },
+            action_id: { type: "string" },
+            style: { type: "string", enum: ["primary", "danger"] },
+          },
+          required: ["text"],
+        },
+      },
+    },
+    required: ["type"],
+  },
+};
+
+function invalid(message: string): McpError {
+  return new McpError(ErrorCode.InvalidParams, message);
+}
+
+function checkLength(path: string, value: string | undefined, max: number) {
+  if (value !== undefined && value.length > max) {
+    throw invalid(`${path} is ${value.length} characters; Block Kit allows at most ${max}`);
+  }
+}
+
+function requireText(path: string, item: ComposeItem): string {
+  if (typeof item.text !== "string" || item.text === "") {
+    throw invalid(`${path}.text is required for ${item.type} items`);
+  }
+  return item.text;
+}
+
+function mrkdwn(text: string) {
+  return { type: "mrkdwn", text };
+}
+
+function composeItem(item: ComposeItem, path: string): any {
+  switch (item.type) {
+    case "header": {
+      const text = requireText(path, item);
+      checkLength(`${path}.text`, text, MAX_HEADER_TEXT);
+      return { type: "header", text: { type: "plain_text", text, emoji: true } };
+    }
+    case "section":
+    case "fields": {
+      const block: any = { type: "section" };
+      if (item.type === "section") {
+        const text = requireText(path, item);
+        checkLength(`${path}.text`, text, MAX_SECTION_TEXT);
+        block.text = mrkdwn(text);
+      }
+      if (item.fields?.length) {
+        if (item.fields.length > MAX_FIELDS) {
+          throw invalid(`${path}.fields has ${item.fields.length} entries; Block Kit allows at most ${MAX_FIELDS}`);
+        }
+        item.fields.forEach((field, index) =>
+          checkLength(`${path}.fields[${index}]`, field, MAX_FIELD_TEXT),
+        );
+        block.fields = item.fields.map(mrkdwn);
+      } else if (item.type === "fields") {
+        throw invalid(`${path}.fields is required for fields items`);
+      }
+      return block;
+    }
+    case "context": {
+      const elements = item.elements ?? (item.text ? [item.text] : []);
+      if (elements.length === 0 || elements.length > MAX_CONTEXT_ELEMENTS) {
+        throw invalid(`${path}.elements must have between 1 and ${MAX_CONTEXT_ELEMENTS} entries`);
+      }
+      elements.forEach((element, index) =>
+        checkLength(`${path}.elements[${index}]`, element, MAX_FIELD_TEXT),
+      );
+      return { type: "context", elements: elements.map(mrkdwn) };
+    }
+    case "divider":
+      return { type: "divider" };
+    case "code": {
+      const text = "```\n" + requireText(path, item) + "\n```";
+      checkLength(`${path}.text`, text, MAX_SECTION_TEXT);
+      return { type: "section", text: mrkdwn(text) };
+    }
+    case "buttons": {
+      const buttons = item.buttons ?? [];
+      if (buttons.length === 0 || buttons.length > MAX_BUTTONS) {
+        throw invalid(`${path}.buttons must have between 1 and ${MAX_BUTTONS} entries`);
+      }
+      return {
+        type: "actions",
+        elements: buttons.map((button, index) => {
+          checkLength(`${path}.buttons[${index}].text`, button.text, MAX_BUTTON_TEXT);
+          return {
+            type: "button",
+            text: { type: "plain_text", text: button.text, emoji: true },
+            url: button.url,
+            value: button.value,
+            action_id: button.action_id ?? `button_${index}`,
+            style: button.style,
+          };
+        }),
+      };
+    }
+    default:
+      throw invalid(`${path}.type "${(item as ComposeItem).type}" is not supported`);
+  }
+}
+
+// Expand compose items into Block Kit blocks, rejecting anything over limits
+export function composeBlocks(items: ComposeItem[]): any[] {
+  const blocks = items.map((item, index) => composeItem(item, `compose[${index}]`));
+  validateBlocks(blocks, "compose");
+  return blocks;
+}
+
+/**
+ * Check caller-supplied blocks against the limits Slack most often rejects
+ * messages for, so the model gets a precise error instead of invalid_blocks.
+ */
+export function validateBlocks(blocks: any[], path = "blocks") {
+  if (blocks.length > MAX_BLOCKS) {
+    throw invalid(`${path} has ${blocks.length} blocks; Slack allows at most ${MAX_BLOCKS} per message`);
+  }
+  blocks.forEach((block, index) => {
+    if (typeof block?.type !== "string") {
+      throw invalid(`${path}[${index}] needs a type`);
+    }
+    if (block.type === "section") {
+      checkLength(`${path}[${index}].text`, block.text?.text, MAX_SECTION_TEXT);
+    }
+  });
+}
+
+function plainText(element: any): string | undefined {
+  return typeof element?.text === "string" ? element.text : undefined;
+}
+
+/**
+ * Plain text for notifications and clients that cannot show blocks, taken
+ * from the headers, sections and context of the message.
+ */
+export function fallbackText(blocks: any[]): string {
+  const lines: string[] = [];
+  for (const block of blocks) {
+    switch (block.type) {
+      case "header":
+      case "section": {
+        const text = plainText(block.text);
+        if (text) {
+          lines.push(text);
+        }
+        for (const field of block.fields ?? []) {
+          const fieldText = plainText(field);
+          if (fieldText) {
+            lines.push(fieldText);
+          }
+        }
+        break;
+      }
+      case "context":
+        lines.push(
+          (block.elements ?? [])
+            .map(plainText)
+            .filter(Boolean)
+            .join(" "),
+        );
+        break;
+    }
+  }
+  return lines.filter((line) => line !== "").join("\n");
+}
@@ -0,0 +1,95 @@
+// Caching of slow-changing Slack metadata (users, channels, emoji) in any
+// KeyValueStore.
+import { base64UrlEncode } from "./encoding.js";
+import { KeyValueStore } from "./kv.js";
+import { SlackToken } from "./slack-client.js";
+
+// Seconds a cached response of each Web API method stays fresh
+export const CACHE_TTLS = {
+  "users.list": 5 * 60,
+  "users.profile.get": 60 * 60,
+  "users.info": 60 * 60,
+  "conversations.info": 10 * 60,
+  "emoji.list": 60 * 60,
+};
+
+export type CachedMethod = keyof typeof CACHE_TTLS;
+
+export const CACHED_METHODS = Object.keys(CACHE_TTLS) as CachedMethod[];
+
+/**
+ * Partition cached data by who can see it. Bot tokens of a workspace all see
+ * the same metadata; user tokens may see private channels, so each user gets
+ * a scope of their own, keyed by a hash rather than the token itself.
+ */
+export async function cacheScope(teamId: string, token: SlackToken): Promise<string> {
+  if (!token.user) {
+    return teamId;
+  }
+  const digest = await crypto.subtle.digest(
+    "SHA-256",
+    new TextEncoder().encode(token.value),
+  );
+  return `${teamId}:${base64UrlEncode(new Uint8Array(digest)).slice(0, 22)}`;
+}
+
+/**
+ * Read-through cache for Web API responses. Each method has a generation
+ * number stored alongside its entries, so a whole method can be invalidated
+ * without listing keys. Store failures only cost a cache miss.
+ */
+export class SlackCache {
+  private store: KeyValueStore;
+
+  constructor(store: KeyValueStore) {
+    this.store = store;
+  }
+
+  async getOrLoad<T>(
+    method: CachedMethod,
+    scope: string,
+    key: string,
+    load: () => Promise<T>,
+  ): Promise<T> {
+    let entryKey: string | undefined;
+    try {
+      entryKey = await this.entryKey(method, scope, key);
+      const cached = await this.store.get(entryKey);
+      if (cached !== null) {
+        return JSON.parse(cached) as T;
+      }
+    } catch (error) {
+      console.error(`Could not read the ${method} cache:`, error);
+    }
+
+    const value = await load();
+    if (entryKey) {
+      try {
+        await this.store.put(entryKey, JSON.stringify(value), {
+          expirationTtl: CACHE_TTLS[method],
+        });
+      } catch (error) {
+        console.error(`Could not write the ${method} cache:`, error);
+      }
+    }
+    return value;
+  }
+
+  // Drop one entry, or every entry of the method when no key is given
+  async invalidate(method: CachedMethod, scope: string, key?: string): Promise<void> {
+    if (key !== undefined) {
+      await this.store.delete(await this.entryKey(method, scope, key));
+      return;
+    }
+    await this.store.put(this.generationKey(method, scope), Date.now().toString(36));
+  }
+
+  private generationKey(method: CachedMethod, scope: string): string {
+    return `slack-cache:${scope}:${method}:generation`;
+  }
+
+  private async entryKey(method: CachedMethod, scope: string, key: string): Promise<string> {
+    const generation = (await this.store.get(this.generationKey(method, scope))) ?? "0";
+    return `slack-cache:${scope}:${method}:${generation}:${key}`;
+  }
+}
@@ -0,0 +1,10 @@
+// Helpers for reading settings from environment variables
+
+// Split a comma-separated setting, dropping blanks
+export function splitList(value?: string): string[] | undefined {
+  const items = value
+    ?.split(",")
+    .map((item) => item.trim())
+    .filter((item) => item.length > 0);
+  return items && items.length > 0 ? items : undefined;
+}
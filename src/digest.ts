@@ -0,0 +1,331 @@
+// Deterministic digests of channel activity: threads, questions, decisions,
+// action items, participants and links, extracted with plain heuristics so
+// agents get the gist of a morning's traffic without an LLM call.
+import { mapConcurrent } from "./concurrency.js";
+import { SlackApiError } from "./errors.js";
+import { ResolvedNames, mrkdwnToMarkdown, resolveNames } from "./readable.js";
+import { HistoryOptions, SlackClient } from "./slack-client.js";
+
+// Channels read at once
+const CHANNEL_CONCURRENCY = 3;
+// Replies read per active thread
+const MAX_THREAD_REPLIES = 200;
+// Longest excerpt of a message kept in the digest
+const EXCERPT_LENGTH = 300;
+
+export interface DigestOptions {
+  range: HistoryOptions;
+  // Messages read per channel
+  maxMessages: number;
+  // Active threads whose replies are read, across all channels
+  maxThreads: number;
+  // Entries kept in each ranked section
+  top: number;
+}
+
+// Message kinds that are not something a person said
+const IGNORED_SUBTYPES = new Set([
+  "channel_join",
+  "channel_leave",
+  "channel_topic",
+  "channel_purpose",
+  "channel_name",
+  "channel_archive",
+  "channel_unarchive",
+  "bot_add",
+  "bot_remove",
+  "pinned_item",
+  "unpinned_item",
+]);
+
+const DECISION_PATTERNS = [
+  /\b(?:we|i|they|team)\s+(?:have\s+)?decided\b/i,
+  /\bdecision\s*:/i,
+  /\b(?:we\s+)?agreed\s+(?:to|on|that)\b/i,
+  /\b(?:let'?s|we'?ll|we\s+will|we\s+are|we'?re)\s+go(?:ing)?\s+with\b/i,
+  /\bfinal\s+(?:call|decision)\b/i,
+  /\b(?:approved|signed\s+off)\b/i,
+];
+
+const ACTION_PATTERNS = [
+  /\baction\s+items?\b/i,
+  /\b(?:todo|to-do)\b/i,
+  /\bnext\s+steps?\s*:/i,
+  /\bfollow[- ]up\b/i,
+  /\b(?:i'll|i\s+will|i\s+can)\s+(?:take|handle|do|look|fix|send|write|check|follow|own|update|review|draft|share|prepare|set\s+up)\b/i,
+  /<@[A-Z0-9]+>\s+(?:can|could|will|please|to)\b/i,
+  /\b(?:can|could)\s+you\s+(?:please\s+)?(?:take|handle|do|look|fix|send|write|check|follow|own|update|review|draft|share|prepare|set\s+up)\b/i,
+];
+
+const DUE_PATTERN =
+  /\bby\s+((?:today|tonight|tomorrow|eod|eow|end\s+of\s+(?:the\s+)?(?:day|week|month)|next\s+week|(?:next\s+)?(?:monday|tuesday|wednesday|thursday|friday|saturday|sunday)|\d{4}-\d{2}-\d{2}))\b/i;
+
+const MENTION = /<@([A-Z0-9]+)(?:\|[^>]*)?>/g;
+const LINK = /<((?:https?):\/\/[^|>\s]+)(?:\|([^>]*))?>/g;
+
+interface DigestMessage {
+  channel_id: string;
+  message: any;
+  // Parent of the thread when the message is a reply
+  thread_ts?: string;
+}
+
+function isPersonMessage(message: any): boolean {
+  return !IGNORED_SUBTYPES.has(message.subtype) && typeof message.text === "string";
+}
+
+function reactionCount(message: any): number {
+  return (message.reactions ?? []).reduce(
+    (total: number, reaction: any) => total + (reaction.count ?? 0),
+    0,
+  );
+}
+
+function isQuestion(text: string): boolean {
+  // Ignore trailing emoji and whitespace after the question mark
+  return /\?\s*(?::[\w+-]+:\s*)*$/.test(text);
+}
+
+function byTs(a: DigestMessage, b: DigestMessage): number {
+  return Number(a.message.ts) - Number(b.message.ts);
+}
+
+/**
+ * Collects the messages of every channel in a digest and turns them into
+ * ranked, named entries once all have been read.
+ */
+class DigestBuilder {
+  private messages: DigestMessage[] = [];
+  private names?: ResolvedNames;
+
+  add(channel_id: string, messages: any[], thread_ts?: string) {
+    for (const message of messages) {
+      if (isPersonMessage(message)) {
+        this.messages.push({ channel_id, message, thread_ts });
+      }
+    }
+  }
+
+  async resolve(slack: SlackClient) {
+    this.names = await resolveNames(
+      slack,
+      this.messages.map(({ message }) => message),
+    );
+  }
+
+  private userName(id: string | undefined, message?: any): string | undefined {
+    if (!id) {
+      return message?.bot_profile?.name ?? message?.username;
+    }
+    return this.names?.users.get(id) ?? id;
+  }
+
+  private excerpt(text: string): string {
+    const markdown = mrkdwnToMarkdown(text, this.names ?? { users: new Map(), channels: new Map() });
+    return markdown.length > EXCERPT_LENGTH
+      ? markdown.slice(0, EXCERPT_LENGTH - 1) + "…"
+      : markdown;
+  }
+
+  private entry({ channel_id, message, thread_ts }: DigestMessage) {
+    return {
+      channel_id,
+      ts: message.ts,
+      thread_ts,
+      user: this.userName(message.user, message),
+      user_id: message.user,
+      text: this.excerpt(message.text),
+    };
+  }
+
+  activeThreads(top: number) {
+    return this.messages
+      .filter(({ message, thread_ts }) => !thread_ts && message.reply_count > 0)
+      .sort(
+        (a, b) =>
+          b.message.reply_count - a.message.reply_count ||
+          reactionCount(b.message) - reactionCount(a.message) ||
+          byTs(a, b),
+      )
+      .slice(0, top)
+      .map((item) => ({
+        ...this.entry(item),
+        reply_count: item.message.reply_count,
+        reply_users: (item.message.reply_users ?? []).map((id: string) => this.userName(id)),
+        reactions: reactionCount(item.message),
+        latest_reply: item.message.latest_reply,
+      }));
+  }
+
+  unansweredQuestions(top: number) {
+    return this.messages
+      .filter(
+        ({ message, thread_ts }) =>
+          !thread_ts && !message.reply_count && message.user && isQuestion(message.text),
+      )
+      .sort(byTs)
+      .slice(0, top)
+      .map((item) => this.entry(item));
+  }
+
+  decisions(top: number) {
+    return this.messages
+      .filter(({ message }) => DECISION_PATTERNS.some((pattern) => pattern.test(message.text)))
+      .sort(byTs)
+      .slice(0, top)
+      .map((item) => this.entry(item));
+  }
+
+  actionItems(top: number) {
+    return this.messages
+      .filter(({ message }) => ACTION_PATTERNS.some((pattern) => pattern.test(message.text)))
+      .sort(byTs)
+      .slice(0, top)
+      .map((item) => {
+        const text: string = item.message.text;
+        const mentioned = [...text.matchAll(MENTION)].map((match) => match[1]);
+        // "I'll ..." makes the author the owner unless someone is named
+        const assignees = mentioned.length > 0
+          ? [...new Set(mentioned)]
+          : /\b(?:i'll|i\s+will|i\s+can)\b/i.test(text) && item.message.user
+            ? [item.message.user]
+            : [];
+        return {
+          ...this.entry(item),
+          assignees: assignees.map((id) => this.userName(id)),
+          due: text.match(DUE_PATTERN)?.[1],
+        };
+      });
+  }
+
+  topParticipants(top: number) {
+    const counts = new Map<string, { messages: number; replies: number }>();
+    for (const { message, thread_ts } of this.messages) {
+      if (!message.user) {
+        continue;
+      }
+      const count = counts.get(message.user) ?? { messages: 0, replies: 0 };
+      if (thread_ts) {
+        count.replies++;
+      } else {
+        count.messages++;
+      }
+      counts.set(message.user, count);
+    }
+    return [...counts]
+      .sort(
+        ([idA, a], [idB, b]) =>
+          b.messages + b.replies - (a.messages + a.replies) || idA.localeCompare(idB),
+      )
+      .slice(0, top)
+      .map(([id, count]) => ({ user: this.userName(id), user_id: id, ...count }));
+  }
+
+  links(top: number) {
+    const links = new Map<string, { url: string; title?: string; count: number; first: DigestMessage }>();
+    for (const item of [...this.messages].sort(byTs)) {
+      for (const match of item.message.text.matchAll(LINK)) {
+        const url = match[1].replace(/&amp;/g, "&");
+        const link = links.get(url);
+        if (link) {
+          link.count++;
+          link.title ??= match[2];
+        } else {
+          links.set(url, { url, title: match[2], count: 1, first: item });
+        }
+      }
+    }
+    return [...links.values()]
+      .sort((a, b) => b.count - a.count || byTs(a.first, b.first))
+      .slice(0, top)
+      .map(({ url, title, count, first }) => ({
+        url,
+        title,
+        count,
+        channel_id: first.channel_id,
+        ts: first.message.ts,
+        shared_by: this.userName(first.message.user, first.message),
+      }));
+  }
+
+  // Threads worth reading replies of, most active first
+  threadsToExpand(limit: number): DigestMessage[] {
+    return this.messages
+      .filter(({ message, thread_ts }) => !thread_ts && message.reply_count > 0)
+      .sort((a, b) => b.message.reply_count - a.message.reply_count || byTs(a, b))
+      .slice(0, limit);
+  }
+}
+
+/**
+ * Read the history of each channel in the range (and the replies of the most
+ * active threads) and summarize it. A channel that cannot be read is
+ * reported with its error instead of failing the whole digest.
+ */
+export async function buildChannelDigest(
+  slack: SlackClient,
+  channelIds: string[],
+  options: DigestOptions,
+) {
+  const builder = new DigestBuilder();
+
+  const channels = await mapConcurrent(channelIds, CHANNEL_CONCURRENCY, async (channel_id) => {
+    try {
+      const [info, history] = await Promise.all([
+        slack.getChannelInfo(channel_id),
+        slack.getAllChannelHistory(channel_id, options.maxMessages, {
+          oldest: options.range.oldest,
+          latest: options.range.latest,
+          inclusive: options.range.inclusive,
+        }),
+      ]);
+      builder.add(channel_id, history.messages);
+      return {
+        channel_id,
+        name: info.channel?.name,
+        messages: history.messages.length,
+        truncated: history.has_more || undefined,
+      };
+    } catch (error) {
+      if (error instanceof SlackApiError && error.code !== "timeout") {
+        return { channel_id, error: error.code, hint: error.hint };
+      }
+      throw error;
+    }
+  });
+
+  // Decisions and action items are usually settled in threads
+  await mapConcurrent(
+    builder.threadsToExpand(options.maxThreads),
+    CHANNEL_CONCURRENCY,
+    async ({ channel_id, message }) => {
+      try {
+        const replies = await slack.getAllThreadReplies(channel_id, message.ts, MAX_THREAD_REPLIES);
+        builder.add(
+          channel_id,
+          replies.messages.filter((reply) => reply.ts !== message.ts),
+          message.ts,
+        );
+      } catch (error) {
+        if (error instanceof SlackApiError && error.code !== "timeout") {
+          console.error(`Could not read thread ${channel_id}/${message.ts}:`, error);
+          return;
+        }
+        throw error;
+      }
+    },
+  );
+
+  await builder.resolve(slack);
+  return {
+    oldest: options.range.oldest,
+    latest: options.range.latest,
+    channels,
+    active_threads: builder.activeThreads(options.top),
+    unanswered_questions: builder.unansweredQuestions(options.top),
+    decisions: builder.decisions(options.top),
+    action_items: builder.actionItems(options.top),
+    top_participants: builder.topParticipants(options.top),
+    links: builder.links(options.top),
+  };
+}
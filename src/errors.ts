@@ -0,0 +1,145 @@
+import { CallToolResult, ErrorCode, McpError } from "@modelcontextprotocol/sdk/types.js";
+
+// Hints shown to the model for the Slack error codes it is most likely to hit
+const SLACK_ERROR_HINTS: Record<string, string> = {
+  channel_not_found:
+    "The channel ID does not exist or is not visible to this token. Use slack_list_channels to find a valid ID.",
+  not_in_channel:
+    "The app is not a member of this channel. Invite it with /invite before posting or reading.",
+  is_archived: "The channel has been archived and can no longer be used.",
+  thread_not_found:
+    "No message with this thread_ts exists in the channel. Check the timestamp format (1234567890.123456).",
+  message_not_found: "No message with this timestamp exists in the channel.",
+  invalid_scheduled_message_id:
+    "No scheduled message with this ID exists in the channel, or it has already been posted.",
+  user_not_found: "The user ID does not exist in this workspace.",
+  already_reacted: "This reaction is already on the message.",
+  invalid_name: "The emoji name is not valid. Pass the name without colons.",
+  no_text: "The message text is empty.",
+  msg_too_long: "The message text is too long. Split it into several messages.",
+  ratelimited:
+    "Slack is still rate limiting this method after several retries. Wait retry_after seconds before calling it again.",
+  missing_scope:
+    "The Slack app is missing an OAuth scope needed for this method. Add it under OAuth & Permissions and reinstall the app.",
+  not_authed: "No Slack token was provided.",
+  invalid_auth: "The Slack token is invalid or has been revoked.",
+  account_inactive: "The Slack token belongs to a deactivated user or app.",
+  token_revoked: "The Slack token has been revoked.",
+  not_allowed_token_type:
+    "This method needs a Slack user token. Sign in with slack_sign_in, or set SLACK_CHANNEL_IDS so search can scan those channels instead.",
+  network_error: "Slack could not be reached. The call can be retried.",
+  request_timeout: "Slack took too long to answer. The call can be retried.",
+  timeout:
+    "The tool call ran out of time, usually while waiting for Slack rate limits. Retry with a narrower request.",
+};
+
+/**
+ * A Slack Web API call that came back with `ok: false` (or no usable body).
+ */
+export class SlackApiError extends Error {
+  readonly code: string;
+  readonly method: string;
+  readonly retryAfter?: number;
+  readonly needed?: string;
+
+  constructor(
+    method: string,
+    code: string,
+    details: { retryAfter?: number; needed?: string } = {},
+  ) {
+    super(`Slack API ${method} failed: ${code}`);
+    this.name = "SlackApiError";
+    this.method = method;
+    this.code = code;
+    this.retryAfter = details.retryAfter;
+    this.needed = details.needed;
+  }
+
+  get hint(): string | undefined {
+    if (this.code === "missing_scope" && this.needed) {
+      return `${SLACK_ERROR_HINTS.missing_scope} Needed scope: ${this.needed}.`;
+    }
+    return SLACK_ERROR_HINTS[this.code];
+  }
+}
+
+/**
+ * A tool refused to do what was asked for a reason of its own rather than
+ * because Slack failed, e.g. editing a message the server did not post.
+ */
+export class ToolError extends Error {
+  readonly code: string;
+  readonly hint?: string;
+
+  constructor(code: string, message: string, hint?: string) {
+    super(message);
+    this.name = "ToolError";
+    this.code = code;
+    this.hint = hint;
+  }
+}
+
+// Payload of a tool result with isError set
+export interface ToolErrorPayload {
+  ok: false;
+  error: string;
+  message: string;
+  hint?: string;
+  slack_method?: string;
+  retry_after?: number;
+}
+
+export function toolErrorResult(error: unknown): CallToolResult {
+  let payload: ToolErrorPayload;
+  if (error instanceof SlackApiError) {
+    payload = {
+      ok: false,
+      error: error.code,
+      message: error.message,
+      hint: error.hint,
+      slack_method: error.method,
+      retry_after: error.retryAfter,
+    };
+  } else if (error instanceof ToolError) {
+    payload = {
+      ok: false,
+      error: error.code,
+      message: error.message,
+      hint: error.hint,
+    };
+  } else {
+    payload = {
+      ok: false,
+      error: "internal_error",
+      message: error instanceof Error ? error.message : String(error),
+    };
+  }
+
+  return {
+    content: [{ type: "text", text: JSON.stringify(payload) }],
+    isError: true,
+  };
+}
+
+const NOT_FOUND_ERRORS = ["channel_not_found", "thread_not_found", "user_not_found", "not_in_channel"];
+
+/**
+ * Resources and prompts fetch Slack data outside of tool calls, where
+ * failures can only be reported as protocol errors. Anything other than a
+ * SlackApiError or ToolError is returned unchanged.
+ */
+export function toMcpError(error: unknown): unknown {
+  if (error instanceof ToolError) {
+    return new McpError(
+      ErrorCode.InvalidRequest,
+      error.hint ? `${error.message}. ${error.hint}` : error.message,
+    );
+  }
+  if (!(error instanceof SlackApiError)) {
+    return error;
+  }
+  return new McpError(
+    NOT_FOUND_ERRORS.includes(error.code) ? ErrorCode.InvalidParams : ErrorCode.InternalError,
+    error.hint ? `${error.message}. ${error.hint}` : error.message,
+  );
+}
@@ -0,0 +1,205 @@
+// Buffer of Slack events (messages, mentions, reactions) for agents that
+// react to activity instead of polling history. The Worker fills it from the
+// Events API and the local server from Socket Mode; the event tools read it
+// through the EventSource interface.
+import { ReadScope, inReadScope } from "./policy.js";
+
+export const EVENT_TYPES = ["message", "app_mention", "reaction_added"] as const;
+
+export type EventType = (typeof EVENT_TYPES)[number];
+
+// Events kept per buffer; older ones are dropped
+const MAX_BUFFERED_EVENTS = 500;
+
+// The fields of a Slack event an agent needs, flattened across event types
+export interface BufferedEvent {
+  // Position in the buffer; pass it back as `after` to continue from here
+  cursor: string;
+  event_id: string;
+  type: EventType;
+  subtype?: string;
+  channel?: string;
+  user?: string;
+  text?: string;
+  ts?: string;
+  thread_ts?: string;
+  // reaction_added: the emoji and the message it was added to
+  reaction?: string;
+  item_ts?: string;
+  item_user?: string;
+  event_ts?: string;
+  received_at: string;
+}
+
+export interface EventQuery {
+  // Only events after this cursor; without it the latest events are returned
+  after?: string;
+  types?: EventType[];
+  channel_id?: string;
+  // Only events in the channels the policy lets the caller read
+  scope?: ReadScope;
+  limit?: number;
+}
+
+export interface EventPage {
+  events: BufferedEvent[];
+  // Cursor to pass as `after` to see only newer events
+  cursor: string;
+}
+
+// Where the event tools read from: an in-process EventLog, or the Worker's
+// Durable Object
+export interface EventSource {
+  recent(query: EventQuery): Promise<EventPage>;
+  // Resolve as soon as an event matches, or with no events after timeoutMs
+  wait(query: EventQuery, timeoutMs: number, signal?: AbortSignal): Promise<EventPage>;
+}
+
+/**
+ * Flatten an Events API `event_callback` payload (or a Socket Mode
+ * events_api payload, which has the same shape). Returns undefined for event
+ * types the buffer does not keep.
+ */
+export function normalizeEvent(payload: any): Omit<BufferedEvent, "cursor"> | undefined {
+  const event = payload?.event;
+  if (!event || !EVENT_TYPES.includes(event.type)) {
+    return undefined;
+  }
+  // Edits and deletions repeat an earlier message rather than adding one
+  if (event.type === "message" && ["message_changed", "message_deleted"].includes(event.subtype)) {
+    return undefined;
+  }
+  return {
+    event_id: payload.event_id ?? `${event.type}:${event.event_ts ?? event.ts}`,
+    type: event.type,
+    subtype: event.subtype,
+    channel: event.channel ?? event.item?.channel,
+    user: event.user ?? event.bot_id,
+    text: event.text,
+    ts: event.ts,
+    thread_ts: event.thread_ts,
+    reaction: event.reaction,
+    item_ts: event.item?.ts,
+    item_user: event.item_user,
+    event_ts: event.event_ts,
+    received_at: new Date().toISOString(),
+  };
+}
+
+function matches(event: BufferedEvent, query: EventQuery): boolean {
+  return (
+    (!query.types || query.types.length === 0 || query.types.includes(event.type)) &&
+    (!query.channel_id || event.channel === query.channel_id) &&
+    (!query.scope || inReadScope(event.channel, query.scope))
+  );
+}
+
+interface Waiter {
+  query: EventQuery;
+  resolve: (page: EventPage) => void;
+}
+
+/**
+ * Bounded, ordered event buffer with long-polling. Cursors are sequence
+ * numbers, so they stay valid while the events they point past are dropped.
+ * Slack redelivers events it did not see acknowledged; those are recognised
+ * by event_id and stored once.
+ */
+export class EventLog implements EventSource {
+  private events: BufferedEvent[] = [];
+  private sequence = 0;
+  private waiters = new Set<Waiter>();
+
+  constructor(saved?: { events: BufferedEvent[]; sequence: number }) {
+    if (saved) {
+      this.events = saved.events;
+      this.sequence = saved.sequence;
+    }
+  }
+
+  // State to persist, for buffers that must survive a restart
+  toJSON(): { events: BufferedEvent[]; sequence: number } {
+    return { events: this.events, sequence: this.sequence };
+  }
+
+  // Add an event; returns undefined when it was already buffered
+  append(event: Omit<BufferedEvent, "cursor">): BufferedEvent | undefined {
+    if (this.events.some((buffered) => buffered.event_id === event.event_id)) {
+      return undefined;
+    }
+    this.sequence++;
+    const buffered = { ...event, cursor: this.sequence.toString() };
+    this.events.push(buffered);
+    if (this.events.length > MAX_BUFFERED_EVENTS) {
+      this.events.splice(0, this.events.length - MAX_BUFFERED_EVENTS);
+    }
+
+    for (const waiter of this.waiters) {
+      const page = this.page(waiter.query);
+      if (page.events.length > 0) {
+        this.waiters.delete(waiter);
+        waiter.resolve(page);
+      }
+    }
+    return buffered;
+  }
+
+  async recent(query: EventQuery): Promise<EventPage> {
+    return this.page(query);
+  }
+
+  async wait(query: EventQuery, timeoutMs: number, signal?: AbortSignal): Promise<EventPage> {
+    // Without a cursor, wait for events that have not arrived yet
+    const waitQuery = { ...query, after: query.after ?? this.sequence.toString() };
+    const page = this.page(waitQuery);
+    if (page.events.length > 0 || timeoutMs <= 0) {
+      return page;
+    }
+
+    return new Promise((resolve) => {
+      const waiter: Waiter = {
+        query: waitQuery,
+        resolve: (result) => {
+          clearTimeout(timer);
+          signal?.removeEventListener("abort", onAbort);
+          resolve(result);
+        },
+      };
+      const onAbort = () => {
+        this.waiters.delete(waiter);
+        waiter.resolve(this.page(waitQuery));
+      };
+      const timer = setTimeout(onAbort, timeoutMs);
+      signal?.addEventListener("abort", onAbort, { once: true });
+      this.waiters.add(waiter);
+    });
+  }
+
+  private page(query: EventQuery): EventPage {
+    const limit = query.limit ?? 50;
+    const latest = this.sequence.toString();
+
+    if (query.after === undefined) {
+      const events = this.events.filter((event) => matches(event, query));
+      return { events: events.slice(-limit), cursor: latest };
+    }
+
+    // A cursor from before the buffer was reset starts again from the beginning
+    let after = Number(query.after);
+    if (!Number.isFinite(after) || after > this.sequence) {
+      after = 0;
+    }
+    const events: BufferedEvent[] = [];
+    for (const event of this.events) {
+      if (Number(event.cursor) <= after || !matches(event, query)) {
+        continue;
+      }
+      events.push(event);
+      if (events.length === limit) {
+        // More may follow; continue from the last one returned
+        return { events, cursor: event.cursor };
+      }
+    }
+    return { events, cursor: latest };
+  }
+}
@@ -0,0 +1,140 @@
+// Minimal key-value storage interface. Cloudflare KV namespaces satisfy it
+// directly; MemoryStore backs the stdio server, LruStore and CacheApiStore
+// hold cached Slack metadata.
+
+export interface KeyValueStore {
+  get(key: string): Promise<string | null>;
+  put(
+    key: string,
+    value: string,
+    options?: { expirationTtl?: number },
+  ): Promise<void>;
+  delete(key: string): Promise<void>;
+}
+
+export class MemoryStore implements KeyValueStore {
+  private entries = new Map<string, { value: string; expires?: number }>();
+
+  async get(key: string): Promise<string | null> {
+    const entry = this.entries.get(key);
+    if (!entry) {
+      return null;
+    }
+    if (entry.expires !== undefined && entry.expires <= Date.now()) {
+      this.entries.delete(key);
+      return null;
+    }
+    return entry.value;
+  }
+
+  async put(
+    key: string,
+    value: string,
+    options: { expirationTtl?: number } = {},
+  ): Promise<void> {
+    this.entries.set(key, {
+      value,
+      expires:
+        options.expirationTtl !== undefined
+          ? Date.now() + options.expirationTtl * 1000
+          : undefined,
+    });
+  }
+
+  async delete(key: string): Promise<void> {
+    this.entries.delete(key);
+  }
+}
+
+/**
+ * Bounded in-memory store that evicts the least recently used entry once it
+ * holds `maxEntries` values.
+ */
+export class LruStore implements KeyValueStore {
+  private entries = new Map<string, { value: string; expires?: number }>();
+  private maxEntries: number;
+
+  constructor(maxEntries = 1000) {
+    this.maxEntries = maxEntries;
+  }
+
+  async get(key: string): Promise<string | null> {
+    const entry = this.entries.get(key);
+    if (!entry) {
+      return null;
+    }
+    this.entries.delete(key);
+    if (entry.expires !== undefined && entry.expires <= Date.now()) {
+      return null;
+    }
+    // Re-insert so the Map's order tracks recency
+    this.entries.set(key, entry);
+    return entry.value;
+  }
+
+  async put(
+    key: string,
+    value: string,
+    options: { expirationTtl?: number } = {},
+  ): Promise<void> {
+    this.entries.delete(key);
+    this.entries.set(key, {
+      value,
+      expires:
+        options.expirationTtl !== undefined
+          ? Date.now() + options.expirationTtl * 1000
+          : undefined,
+    });
+    while (this.entries.size > this.maxEntries) {
+      const oldest = this.entries.keys().next().value as string;
+      this.entries.delete(oldest);
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    this.entries.delete(key);
+  }
+}
+
+/**
+ * Store backed by the Cache API, shared by the Worker isolates of a data
+ * center. Entries may be evicted early, so only use it for caching.
+ */
+export class CacheApiStore implements KeyValueStore {
+  private name: string;
+
+  constructor(name = "slack-mcp") {
+    this.name = name;
+  }
+
+  private request(key: string): Request {
+    return new Request(`https://cache.invalid/${encodeURIComponent(key)}`);
+  }
+
+  async get(key: string): Promise<string | null> {
+    const cache = await caches.open(this.name);
+    const response = await cache.match(this.request(key));
+    return response ? response.text() : null;
+  }
+
+  async put(
+    key: string,
+    value: string,
+    options: { expirationTtl?: number } = {},
+  ): Promise<void> {
+    const cache = await caches.open(this.name);
+    await cache.put(
+      this.request(key),
+      new Response(value, {
+        headers: {
+          "Cache-Control": `max-age=${options.expirationTtl ?? 365 * 24 * 60 * 60}`,
+        },
+      }),
+    );
+  }
+
+  async delete(key: string): Promise<void> {
+    const cache = await caches.open(this.name);
+    await cache.delete(this.request(key));
+  }
+}
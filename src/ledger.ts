@@ -0,0 +1,33 @@
+// Record of the messages this server posted and who they were posted for,
+// so edits and deletes can be limited to them.
+import { KeyValueStore } from "./kv.js";
+
+// How long a posted message stays editable through the ledger
+const LEDGER_TTL_SECONDS = 30 * 24 * 60 * 60;
+
+export class MessageLedger {
+  private store: KeyValueStore;
+
+  constructor(store: KeyValueStore) {
+    this.store = store;
+  }
+
+  private key(channel: string, ts: string): string {
+    return `ledger:${channel}:${ts}`;
+  }
+
+  // poster is the ID of the caller the message was posted for
+  async record(channel: string, ts: string, poster = ""): Promise<void> {
+    await this.store.put(this.key(channel, ts), poster, {
+      expirationTtl: LEDGER_TTL_SECONDS,
+    });
+  }
+
+  async poster(channel: string, ts: string): Promise<string | undefined> {
+    return (await this.store.get(this.key(channel, ts))) ?? undefined;
+  }
+
+  async forget(channel: string, ts: string): Promise<void> {
+    await this.store.delete(this.key(channel, ts));
+  }
+}
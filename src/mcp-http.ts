@@ -0,0 +1,35 @@
+// Request handling shared by the Worker and the Node HTTP server: OAuth
+// discovery, authentication, then the Streamable HTTP session
+import { AuthError, Authenticator, Principal } from "./auth.js";
+import { ServerOptions, createServer } from "./server.js";
+import { SessionManager } from "./streamable-http.js";
+import { ToolContext } from "./tools/index.js";
+
+export async function handleMcpRequest(
+  request: Request,
+  auth: Authenticator,
+  sessions: SessionManager,
+  createContext: (caller: Principal) => ToolContext,
+  serverOptions?: ServerOptions,
+): Promise<Response> {
+  const discovery = await auth.handleDiscovery(request);
+  if (discovery) {
+    return discovery;
+  }
+
+  let caller: Principal;
+  try {
+    caller = await auth.authenticate(request);
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return auth.unauthorizedResponse(request, error);
+    }
+    throw error;
+  }
+
+  return sessions.handleRequest(
+    request,
+    () => createServer(createContext(caller), serverOptions),
+    caller.id,
+  );
+}
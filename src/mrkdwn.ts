@@ -0,0 +1,264 @@
+// Outbound formatting: turn the Markdown models write into Slack mrkdwn,
+// link @name and #channel mentions, and split text that is too long for one
+// message.
+import { SlackClient } from "./slack-client.js";
+
+// Slack truncates longer text; it recommends staying under 4,000 characters
+export const MAX_MESSAGE_LENGTH = 4000;
+
+// users.list / conversations.list pages searched for mentioned names
+const MAX_LOOKUP_PAGES = 10;
+
+// IDs for the @names and #channels mentioned in a message, keyed lowercase
+export interface Mentions {
+  users: Map<string, string>;
+  channels: Map<string, string>;
+}
+
+const SPECIAL_MENTIONS = ["here", "channel", "everyone"];
+
+// Names end in a word character, so trailing punctuation is not included
+const USER_MENTION = /(^|[\s(])@(\w(?:[\w.-]*\w)?)/g;
+const CHANNEL_MENTION = /(^|[\s(])#([a-z0-9](?:[\w-]*\w)?)/g;
+
+function escapeText(text: string): string {
+  return text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+}
+
+// Render a Markdown table as an aligned monospace block
+function renderTable(rows: string[]): string {
+  const cells = rows
+    .filter((row) => !/^\s*\|?\s*:?-{3,}:?\s*(\|\s*:?-{3,}:?\s*)*\|?\s*$/.test(row))
+    .map((row) =>
+      row
+        .trim()
+        .replace(/^\||\|$/g, "")
+        .split("|")
+        .map((cell) => cell.trim()),
+    );
+  const widths: number[] = [];
+  for (const row of cells) {
+    row.forEach((cell, index) => {
+      widths[index] = Math.max(widths[index] ?? 0, cell.length);
+    });
+  }
+  const lines = cells.map((row) =>
+    row
+      .map((cell, index) => cell.padEnd(widths[index]))
+      .join("  ")
+      .trimEnd(),
+  );
+  return "```\n" + escapeText(lines.join("\n")) + "\n```";
+}
+
+function convertLine(line: string, protect: (value: string) => string): string {
+  const heading = line.match(/^\s{0,3}#{1,6}\s+(.*?)\s*#*\s*$/);
+  if (heading) {
+    return `\u0001${heading[1].replace(/\*\*|__/g, "")}\u0001`;
+  }
+  if (/^\s{0,3}([-*_])(\s*\1){2,}\s*$/.test(line)) {
+    return "──────────";
+  }
+  const quote = line.match(/^\s{0,3}>\s?(.*)$/);
+  if (quote) {
+    return protect(">") + " " + quote[1];
+  }
+  return line.replace(/^(\s*)[-*+]\s+(?:\[( |x)\]\s+)?/, (_, indent: string, task?: string) => {
+    if (task !== undefined) {
+      return `${indent}${task === "x" ? "☑" : "☐"} `;
+    }
+    return `${indent}• `;
+  });
+}
+
+/**
+ * Convert CommonMark to Slack mrkdwn: **bold** and headings become *bold*,
+ * *italic* becomes _italic_, ~~strike~~ becomes ~strike~, [label](url)
+ * becomes <url|label>, lists get bullets and tables become monospace blocks.
+ * &, < and > are escaped everywhere except in the references this
+ * produces and Slack references such as <@U…> already in the text, and known
+ * @names and #channels become <@U…> and <#C…>. @here, @channel and
+ * @everyone (and <!here> and the like) stay plain text unless `broadcast` is
+ * set.
+ */
+export function markdownToMrkdwn(
+  markdown: string,
+  mentions?: Mentions,
+  options: { broadcast?: boolean } = {},
+): string {
+  const protectedValues: string[] = [];
+  const protect = (value: string) => {
+    protectedValues.push(value);
+    return `\u0000${protectedValues.length - 1}\u0000`;
+  };
+
+  let text = markdown.replace(/\r\n/g, "\n");
+
+  // Code first, so nothing inside it is reformatted
+  text = text.replace(/```[^\n`]*\n([\s\S]*?)```/g, (_, code: string) =>
+    protect("```\n" + escapeText(code.replace(/\n$/, "")) + "\n```"),
+  );
+  text = text.replace(/(?:^[ \t]*\|.*\|[ \t]*(?:\n|$)){2,}/gm, (table: string) =>
+    protect(renderTable(table.trimEnd().split("\n"))) + (table.endsWith("\n") ? "\n" : ""),
+  );
+  text = text.replace(/`([^`\n]+)`/g, (_, code: string) => protect("`" + escapeText(code) + "`"));
+
+  text = text.replace(/!?\[([^\]\n]+)\]\(([^)\s]+)(?:\s+"[^"]*")?\)/g, (_, label: string, url: string) =>
+    protect(`<${url}|${escapeText(label)}>`),
+  );
+  text = text.replace(/<((?:https?|mailto):[^>\s]+)>/g, (_, url: string) => protect(`<${url}>`));
+  // Slack references already in the text, except broadcasts the caller did not ask for
+  text = text.replace(/<([@#!])([^>\s]+)>/g, (match, sigil: string, reference: string) => {
+    const special = sigil === "!" && SPECIAL_MENTIONS.includes(reference.split("|")[0].toLowerCase());
+    return special && !options.broadcast ? match : protect(match);
+  });
+
+  text = text.replace(USER_MENTION, (match, prefix: string, name: string) => {
+    const lower = name.toLowerCase();
+    if (SPECIAL_MENTIONS.includes(lower)) {
+      return options.broadcast ? prefix + protect(`<!${lower}>`) : match;
+    }
+    const id = mentions?.users.get(lower);
+    return id ? prefix + protect(`<@${id}>`) : match;
+  });
+  text = text.replace(CHANNEL_MENTION, (match, prefix: string, name: string) => {
+    const id = mentions?.channels.get(name.toLowerCase());
+    return id ? prefix + protect(`<#${id}>`) : match;
+  });
+
+  text = text
+    .split("\n")
+    .map((line) => convertLine(line, protect))
+    .join("\n");
+
+  // Bold goes through a marker so the italic pass does not see it
+  text = escapeText(text)
+    .replace(/\*\*(?=\S)([^*\n]*?\S)\*\*/g, "\u0001$1\u0001")
+    .replace(/__(?=\S)([^_\n]*?\S)__/g, "\u0001$1\u0001")
+    .replace(/(^|[^\w*])\*(?=\S)([^*\n]*?\S)\*(?!\w)/g, "$1_$2_")
+    .replace(/~~(?=\S)([^~\n]*?\S)~~/g, "~$1~")
+    .replace(/\u0001/g, "*");
+
+  return text.replace(/\u0000(\d+)\u0000/g, (_, index: string) => protectedValues[Number(index)]);
+}
+
+// The @names and #channels in text outside of code and links
+function mentionedNames(markdown: string): { users: Set<string>; channels: Set<string> } {
+  const plain = markdown
+    .replace(/```[\s\S]*?```/g, "")
+    .replace(/`[^`\n]+`/g, "")
+    .replace(/\]\([^)]*\)/g, "]");
+  const users = new Set<string>();
+  const channels = new Set<string>();
+  for (const match of plain.matchAll(USER_MENTION)) {
+    const name = match[2].toLowerCase();
+    if (!SPECIAL_MENTIONS.includes(name)) {
+      users.add(name);
+    }
+  }
+  for (const match of plain.matchAll(CHANNEL_MENTION)) {
+    channels.add(match[2].toLowerCase());
+  }
+  return { users, channels };
+}
+
+/**
+ * Look up the IDs of the users and channels a message mentions by name.
+ * Names that cannot be found are left out and stay plain text.
+ */
+export async function resolveMentions(
+  slack: SlackClient,
+  markdown: string,
+): Promise<Mentions> {
+  const wanted = mentionedNames(markdown);
+  const mentions: Mentions = { users: new Map(), channels: new Map() };
+
+  try {
+    let cursor: string | undefined;
+    for (let page = 0; wanted.users.size > mentions.users.size && page < MAX_LOOKUP_PAGES; page++) {
+      const response = await slack.getUsers(200, cursor);
+      for (const member of response.members ?? []) {
+        for (const name of [member.name, member.profile?.display_name, member.profile?.real_name]) {
+          const lower = typeof name === "string" ? name.toLowerCase() : undefined;
+          if (lower && wanted.users.has(lower) && !mentions.users.has(lower)) {
+            mentions.users.set(lower, member.id);
+          }
+        }
+      }
+      cursor = response.response_metadata?.next_cursor;
+      if (!cursor) {
+        break;
+      }
+    }
+  } catch (error) {
+    console.error("Could not look up mentioned users:", error);
+  }
+
+  try {
+    let cursor: string | undefined;
+    for (let page = 0; wanted.channels.size > mentions.channels.size && page < MAX_LOOKUP_PAGES; page++) {
+      const response = await slack.getChannels(200, cursor);
+      for (const channel of response.channels) {
+        const lower = channel.name?.toLowerCase();
+        if (lower && wanted.channels.has(lower)) {
+          mentions.channels.set(lower, channel.id);
+        }
+      }
+      cursor = response.response_metadata?.next_cursor;
+      if (!cursor) {
+        break;
+      }
+    }
+  } catch (error) {
+    console.error("Could not look up mentioned channels:", error);
+  }
+
+  return mentions;
+}
+
+/**
+ * Split text into chunks of at most `maxLength` characters, breaking at
+ * paragraph or line ends where possible and re-opening code blocks that a
+ * break falls inside.
+ */
+export function splitMessage(text: string, maxLength = MAX_MESSAGE_LENGTH): string[] {
+  if (text.length <= maxLength) {
+    return [text];
+  }
+
+  const chunks: string[] = [];
+  let rest = text;
+  let reopenFence = false;
+  while (rest.length > 0) {
+    const prefix: string = reopenFence ? "```\n" : "";
+    // Leave room to close a code block the chunk ends inside
+    const room = maxLength - prefix.length - 4;
+    if (prefix.length + rest.length <= maxLength) {
+      chunks.push(prefix + rest);
+      break;
+    }
+
+    const head = rest.slice(0, room);
+    let cut = head.lastIndexOf("\n\n");
+    if (cut < room / 2) {
+      cut = head.lastIndexOf("\n");
+    }
+    if (cut < room / 2) {
+      cut = head.lastIndexOf(" ");
+    }
+    if (cut <= 0) {
+      cut = room;
+    }
+
+    let chunk = prefix + rest.slice(0, cut).trimEnd();
+    // Drop the line break or space the chunk was cut at, not indentation
+    rest = rest.slice(cut).replace(/^(\n+| )/, "");
+    const insideFence = (chunk.match(/```/g) ?? []).length % 2 === 1;
+    if (insideFence) {
+      chunk += "\n```";
+    }
+    reopenFence = insideFence;
+    chunks.push(chunk);
+  }
+  return chunks;
+}
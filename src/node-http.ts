@@ -0,0 +1,72 @@
+// Serve a Fetch-style request handler from Node's http module, so the
+// Streamable HTTP transport can run locally without wrangler
+import { createServer, IncomingMessage, ServerResponse } from "node:http";
+
+type FetchHandler = (request: Request) => Promise<Response>;
+
+async function toRequest(req: IncomingMessage, port: number): Promise<Request> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) {
+    chunks.push(chunk as Buffer);
+  }
+
+  const headers = new Headers();
+  for (const [name, value] of Object.entries(req.headers)) {
+    if (Array.isArray(value)) {
+      value.forEach((item) => headers.append(name, item));
+    } else if (value !== undefined) {
+      headers.set(name, value);
+    }
+  }
+
+  const hasBody = req.method !== "GET" && req.method !== "HEAD";
+  return new Request(`http://localhost:${port}${req.url ?? "/"}`, {
+    method: req.method,
+    headers,
+    body: hasBody && chunks.length > 0 ? Buffer.concat(chunks) : undefined,
+  });
+}
+
+async function writeResponse(response: Response, res: ServerResponse) {
+  const headers: Record<string, string> = {};
+  response.headers.forEach((value, name) => {
+    headers[name] = value;
+  });
+  res.writeHead(response.status, headers);
+  if (!response.body) {
+    res.end();
+    return;
+  }
+
+  const reader = response.body.getReader();
+  res.on("close", () => {
+    reader.cancel().catch(() => {});
+  });
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) {
+      break;
+    }
+    res.write(value);
+  }
+  res.end();
+}
+
+export function serveHttp(port: number, handler: FetchHandler): Promise<void> {
+  const server = createServer((req, res) => {
+    toRequest(req, port)
+      .then(handler)
+      .then((response) => writeResponse(response, res))
+      .catch((error) => {
+        console.error("Error handling HTTP request:", error);
+        if (!res.headersSent) {
+          res.writeHead(500);
+        }
+        res.end();
+      });
+  });
+
+  return new Promise((resolve) => {
+    server.listen(port, resolve);
+  });
+}
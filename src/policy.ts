@@ -0,0 +1,382 @@
+// Write-safety policy: which channels may be read or written, with which
+// tools, how often, and what messages must never contain. Checked before a
+// tool, resource or prompt calls Slack.
+import { ToolError } from "./errors.js";
+
+// What a tool does with the channels it is given; "post" adds messages and
+// counts towards the hourly limits
+export type ToolAccess = "read" | "write" | "post";
+
+export interface ChannelRule {
+  read?: boolean;
+  write?: boolean;
+  // Tools that may be used on the channel; undefined means any
+  tools?: string[];
+  max_messages_per_hour?: number;
+  require_confirmation?: boolean;
+}
+
+export interface PolicyConfig {
+  // Tools that may be used at all; undefined means any
+  tools?: string[];
+  // Rule for channels not listed in `channels`
+  default?: ChannelRule;
+  channels?: Record<string, ChannelRule>;
+  // Across all channels
+  max_messages_per_hour?: number;
+  // Regular expressions (case-insensitive) or the built-in sets "secrets"
+  // and "broadcasts"
+  forbidden_patterns?: string[];
+  require_confirmation?: boolean;
+}
+
+export interface PolicyEnv {
+  // Policy as JSON
+  SLACK_POLICY?: string;
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// Tokens and keys that must not leave through Slack; also masked in the
+// audit log
+export const SECRET_PATTERNS: RegExp[] = [
+  /\bxox[abposr]-[0-9A-Za-z-]{10,}/,
+  /\bxapp-\d-[0-9A-Za-z-]{10,}/,
+  /\b(?:AKIA|ASIA)[0-9A-Z]{16}\b/,
+  /\bgh[pousr]_[0-9A-Za-z]{36,}\b/,
+  /\bsk-[0-9A-Za-z_-]{20,}/,
+  /-----BEGIN (?:[A-Z]+ )?PRIVATE KEY-----/,
+  /\b(?:password|passwd|secret|api[_-]?key)\s*[:=]\s*\S{6,}/i,
+];
+
+const BUILT_IN_PATTERNS: Record<string, { label: string; patterns: RegExp[] }> = {
+  secrets: {
+    label: "a secret or token",
+    patterns: SECRET_PATTERNS,
+  },
+  broadcasts: {
+    label: "an @channel, @here or @everyone broadcast",
+    patterns: [/<!(?:channel|here|everyone)(?:\|[^>]*)?>/, /(?:^|[\s(])@(?:channel|here|everyone)\b/i],
+  },
+};
+
+const DEFAULT_FORBIDDEN_PATTERNS = ["secrets", "broadcasts"];
+
+// Arguments that name Slack objects rather than carry content
+export const ID_ARGUMENTS = new Set([
+  "channel_id",
+  "channel_ids",
+  "thread_ts",
+  "ts",
+  "user_id",
+  "user_ids",
+  "file_id",
+  "scheduled_message_id",
+  "content_base64",
+  "blob",
+]);
+
+interface CompiledPattern {
+  label: string;
+  pattern: RegExp;
+}
+
+function compilePatterns(sources: string[]): CompiledPattern[] {
+  return sources.flatMap((source) => {
+    const builtIn = BUILT_IN_PATTERNS[source];
+    if (builtIn) {
+      return builtIn.patterns.map((pattern) => ({ label: builtIn.label, pattern }));
+    }
+    try {
+      return [{ label: `text matching ${source}`, pattern: new RegExp(source, "i") }];
+    } catch {
+      throw new Error(`Invalid forbidden pattern in SLACK_POLICY: ${source}`);
+    }
+  });
+}
+
+// Every string in the content arguments of a call
+function contentStrings(value: unknown, key?: string): string[] {
+  if (key && ID_ARGUMENTS.has(key)) {
+    return [];
+  }
+  if (typeof value === "string") {
+    return [value];
+  }
+  if (Array.isArray(value)) {
+    return value.flatMap((item) => contentStrings(item));
+  }
+  if (value && typeof value === "object") {
+    return Object.entries(value).flatMap(([name, item]) => contentStrings(item, name));
+  }
+  return [];
+}
+
+// The channels a call targets, from the argument names every tool shares
+export function targetChannels(args: Record<string, unknown>): string[] {
+  const channels: string[] = [];
+  if (typeof args.channel_id === "string" && args.channel_id) {
+    channels.push(args.channel_id);
+  }
+  if (Array.isArray(args.channel_ids)) {
+    channels.push(...args.channel_ids.filter((id): id is string => typeof id === "string"));
+  }
+  return channels;
+}
+
+function validateRule(rule: unknown, name: string): ChannelRule {
+  if (typeof rule !== "object" || rule === null || Array.isArray(rule)) {
+    throw new Error(`SLACK_POLICY ${name} must be an object`);
+  }
+  const { read, write, tools, max_messages_per_hour, require_confirmation } = rule as Record<string, unknown>;
+  for (const [field, value] of Object.entries({ read, write, require_confirmation })) {
+    if (value !== undefined && typeof value !== "boolean") {
+      throw new Error(`SLACK_POLICY ${name}.${field} must be true or false`);
+    }
+  }
+  if (tools !== undefined && (!Array.isArray(tools) || tools.some((tool) => typeof tool !== "string"))) {
+    throw new Error(`SLACK_POLICY ${name}.tools must be a list of tool names`);
+  }
+  if (max_messages_per_hour !== undefined && (typeof max_messages_per_hour !== "number" || max_messages_per_hour < 0)) {
+    throw new Error(`SLACK_POLICY ${name}.max_messages_per_hour must be a number`);
+  }
+  return rule as ChannelRule;
+}
+
+/**
+ * Parse and check a policy document, so mistakes fail at startup rather than
+ * silently allowing everything.
+ */
+export function parsePolicy(json: string): PolicyConfig {
+  let config: any;
+  try {
+    config = JSON.parse(json);
+  } catch {
+    throw new Error("SLACK_POLICY is not valid JSON");
+  }
+  validateRule(config, "policy");
+  if (config.default !== undefined) {
+    validateRule(config.default, "default");
+  }
+  for (const [channel, rule] of Object.entries(config.channels ?? {})) {
+    validateRule(rule, `channels.${channel}`);
+  }
+  if (
+    config.forbidden_patterns !== undefined &&
+    (!Array.isArray(config.forbidden_patterns) ||
+      config.forbidden_patterns.some((pattern: unknown) => typeof pattern !== "string"))
+  ) {
+    throw new Error("SLACK_POLICY forbidden_patterns must be a list of strings");
+  }
+  return config;
+}
+
+function rulePermitsRead(rule: ChannelRule, tool?: string): boolean {
+  return rule.read !== false && (!tool || !rule.tools || rule.tools.includes(tool));
+}
+
+// Channels a read may see when it names none, from Policy.readScope
+export type ReadScope = { only: string[]; except?: undefined } | { except: string[]; only?: undefined };
+
+export function inReadScope(channel: string | undefined, scope: ReadScope): boolean {
+  if (scope.only) {
+    return channel !== undefined && scope.only.includes(channel);
+  }
+  return channel === undefined || !scope.except.includes(channel);
+}
+
+export function loadPolicy(env: PolicyEnv): Policy | undefined {
+  return env.SLACK_POLICY ? new Policy(parsePolicy(env.SLACK_POLICY)) : undefined;
+}
+
+export class Policy {
+  private config: PolicyConfig;
+  private patterns: CompiledPattern[];
+  // Times of recent posts, per channel and under "*" for all channels
+  private posts = new Map<string, number[]>();
+
+  constructor(config: PolicyConfig) {
+    this.config = config;
+    this.patterns = compilePatterns(config.forbidden_patterns ?? DEFAULT_FORBIDDEN_PATTERNS);
+  }
+
+  private rule(channel: string): ChannelRule {
+    return { ...this.config.default, ...this.config.channels?.[channel] };
+  }
+
+  allowsTool(name: string): boolean {
+    return !this.config.tools || this.config.tools.includes(name);
+  }
+
+  // Whether any write may need confirmation, so tools should offer `confirm`
+  get usesConfirmation(): boolean {
+    return (
+      this.config.require_confirmation === true ||
+      this.config.default?.require_confirmation === true ||
+      Object.values(this.config.channels ?? {}).some((rule) => rule.require_confirmation)
+    );
+  }
+
+  // Whether writes to these channels need the user's confirmation
+  requiresConfirmation(channels: string[]): boolean {
+    if (this.config.require_confirmation) {
+      return true;
+    }
+    return channels.some((channel) => this.rule(channel).require_confirmation);
+  }
+
+  // Whether `channel` may be read (with `tool`, when one is given)
+  allowsRead(channel: string, tool?: string): boolean {
+    return rulePermitsRead(this.rule(channel), tool);
+  }
+
+  /**
+   * The channels a read that names none may return, as the channels listed
+   * in the policy are the only exceptions to its default rule: every channel
+   * but `except`, or only the channels in `only`.
+   */
+  readScope(tool?: string): ReadScope {
+    const listed = Object.keys(this.config.channels ?? {});
+    if (rulePermitsRead({ ...this.config.default }, tool)) {
+      return { except: listed.filter((channel) => !this.allowsRead(channel, tool)) };
+    }
+    return { only: listed.filter((channel) => this.allowsRead(channel, tool)) };
+  }
+
+  // Throw unless `channel` may be read (with `tool`, when one is given)
+  checkRead(channel: string, tool?: string) {
+    const rule = this.rule(channel);
+    if (rule.read === false) {
+      throw new ToolError("policy_denied", `Reading channel ${channel} is not allowed by the policy`);
+    }
+    if (tool && rule.tools && !rule.tools.includes(tool)) {
+      throw new ToolError("policy_denied", `${tool} may not be used on channel ${channel}`);
+    }
+  }
+
+  /**
+   * Check a tool call against the policy, throwing ToolError when it is not
+   * allowed. Writes that need confirmation pass only with `confirm: true`;
+   * posts are counted towards the hourly limits as they pass. A `preview`
+   * (dry run) is checked for everything else but neither needs confirmation
+   * nor counts.
+   */
+  authorize(
+    tool: string,
+    access: ToolAccess | undefined,
+    args: Record<string, unknown>,
+    options: { preview?: boolean } = {},
+  ) {
+    if (!this.allowsTool(tool)) {
+      throw new ToolError("policy_denied", `${tool} is not allowed by the policy`);
+    }
+    if (!access) {
+      return;
+    }
+
+    const channels = targetChannels(args);
+    if (access === "read") {
+      for (const channel of channels) {
+        this.checkRead(channel, tool);
+      }
+      return;
+    }
+
+    for (const channel of channels) {
+      this.checkWrite(this.rule(channel), tool, `channel ${channel}`);
+    }
+    this.checkContent(args);
+
+    if (options.preview) {
+      return;
+    }
+    if (this.requiresConfirmation(channels)) {
+      this.checkConfirmed(args);
+    }
+
+    if (access === "post") {
+      this.countPost(channels);
+    }
+  }
+
+  /**
+   * Check a write to a conversation that is only opened once the check
+   * passes, such as a new DM, so that a refused message leaves nothing
+   * behind. Only the default rule can apply to it; the write is checked
+   * again, and counted, once the conversation has an ID.
+   */
+  authorizeUnopened(tool: string, args: Record<string, unknown>, options: { preview?: boolean } = {}) {
+    if (!this.allowsTool(tool)) {
+      throw new ToolError("policy_denied", `${tool} is not allowed by the policy`);
+    }
+    const rule = { ...this.config.default };
+    this.checkWrite(rule, tool, "new conversations");
+    this.checkContent(args);
+    if (!options.preview && (this.config.require_confirmation || rule.require_confirmation)) {
+      this.checkConfirmed(args);
+    }
+  }
+
+  private checkWrite(rule: ChannelRule, tool: string, target: string) {
+    if (rule.write === false) {
+      throw new ToolError("policy_denied", `Writing to ${target} is not allowed by the policy`);
+    }
+    if (rule.tools && !rule.tools.includes(tool)) {
+      throw new ToolError("policy_denied", `${tool} may not be used on ${target}`);
+    }
+  }
+
+  private checkContent(args: Record<string, unknown>) {
+    for (const text of contentStrings(args)) {
+      const match = this.patterns.find(({ pattern }) => pattern.test(text));
+      if (match) {
+        throw new ToolError(
+          "policy_forbidden_content",
+          `The message contains ${match.label}, which the policy forbids`,
+          "Remove it and try again.",
+        );
+      }
+    }
+  }
+
+  private checkConfirmed(args: Record<string, unknown>) {
+    if (args.confirm !== true) {
+      throw new ToolError(
+        "confirmation_required",
+        "The policy requires the user to confirm this change before it is made",
+        "Show the user exactly what will be sent, and once they agree call the tool again with confirm: true.",
+      );
+    }
+  }
+
+  private countPost(channels: string[]) {
+    const now = Date.now();
+    const limits: [string, number | undefined][] = [
+      ["*", this.config.max_messages_per_hour],
+      ...channels.map((channel): [string, number | undefined] => [channel, this.rule(channel).max_messages_per_hour]),
+    ];
+
+    for (const [key, limit] of limits) {
+      if (limit === undefined) {
+        continue;
+      }
+      const recent = (this.posts.get(key) ?? []).filter((time) => time > now - HOUR_MS);
+      this.posts.set(key, recent);
+      if (recent.length >= limit) {
+        const retryAfter = Math.ceil((recent[0] + HOUR_MS - now) / 1000);
+        throw new ToolError(
+          "policy_rate_limited",
+          key === "*"
+            ? `The policy allows ${limit} messages per hour`
+            : `The policy allows ${limit} messages per hour in channel ${key}`,
+          `Try again in ${retryAfter} seconds.`,
+        );
+      }
+    }
+    for (const [key, limit] of limits) {
+      if (limit !== undefined) {
+        this.posts.get(key)!.push(now);
+      }
+    }
+  }
+}
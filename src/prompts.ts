@@ -0,0 +1,253 @@
+// MCP prompts for common Slack workflows. Each prompt fetches the messages it
+// is about up front and embeds them, so the model starts with the data.
+import {
+  ErrorCode,
+  GetPromptResult,
+  McpError,
+  Prompt,
+} from "@modelcontextprotocol/sdk/types.js";
+import { mapConcurrent } from "./concurrency.js";
+import { toMcpError } from "./errors.js";
+import { renderReadable } from "./readable.js";
+import { parseTimeBound } from "./time.js";
+import { ToolContext, isAllowed } from "./tools/index.js";
+
+// Messages embedded per channel or thread
+const MAX_PROMPT_MESSAGES = 500;
+const DEFAULT_SINCE = "24h";
+const MAX_DIGEST_CHANNELS = 10;
+const DIGEST_CONCURRENCY = 3;
+
+interface PromptDefinition extends Prompt {
+  // Tools the caller must be allowed to use, as the prompt reads the same data
+  tools: string[];
+  build: (args: Record<string, string>, context: ToolContext) => Promise<string>;
+}
+
+function requireArgument(args: Record<string, string>, name: string): string {
+  const value = args[name]?.trim();
+  if (!value) {
+    throw new McpError(ErrorCode.InvalidParams, `Missing required argument: ${name}`);
+  }
+  return value;
+}
+
+// Slack data for the model, with sensitive data masked when configured
+function dataBlock(data: unknown, { redaction }: ToolContext): string {
+  if (redaction?.read === "mask") {
+    data = redaction.maskValue(data, {});
+  }
+  return "```json\n" + JSON.stringify(data, null, 2) + "\n```";
+}
+
+/**
+ * Accept a thread as a Slack permalink
+ * (https://team.slack.com/archives/C123/p1712345678123456, optionally with
+ * ?thread_ts=...), a slack://thread/C123/1712345678.123456 resource URI or
+ * "C123/1712345678.123456".
+ */
+function parseThreadReference(value: string): { channel_id: string; thread_ts: string } {
+  const permalink = value.match(/\/archives\/([A-Za-z0-9]+)\/p(\d{10})(\d{6})/);
+  if (permalink) {
+    const threadTs = value.match(/[?&]thread_ts=(\d+\.\d+)/);
+    return {
+      channel_id: permalink[1],
+      thread_ts: threadTs ? threadTs[1] : `${permalink[2]}.${permalink[3]}`,
+    };
+  }
+  const reference = value.match(/^(?:slack:\/\/thread\/)?([A-Za-z0-9]+)\/(\d+\.\d+)$/);
+  if (reference) {
+    return { channel_id: reference[1], thread_ts: reference[2] };
+  }
+  throw new McpError(
+    ErrorCode.InvalidParams,
+    `Could not understand thread "${value}". Pass a Slack message link or <channel_id>/<thread_ts>.`,
+  );
+}
+
+const summarizeChannelPrompt: PromptDefinition = {
+  name: "summarize_channel",
+  description: "Summarize what happened in a channel over a period of time",
+  arguments: [
+    { name: "channel_id", description: "The ID of the channel", required: true },
+    {
+      name: "since",
+      description: `Start of the period, e.g. "24h", "since Monday" or an ISO date (default: ${DEFAULT_SINCE})`,
+    },
+  ],
+  tools: ["slack_get_channel_history"],
+  async build(args, context) {
+    const { slack, policy } = context;
+    const channelId = requireArgument(args, "channel_id");
+    policy?.checkRead(channelId, "slack_get_channel_history");
+    const since = args.since || DEFAULT_SINCE;
+    const oldest = parseTimeBound("since", since);
+    const history = await slack.getAllChannelHistory(channelId, MAX_PROMPT_MESSAGES, { oldest });
+
+    return [
+      `Summarize the Slack channel ${channelId} since ${since}.`,
+      "Group the discussion by topic. For each topic give the outcome or current state, who was involved and any open questions. List decisions and action items (with owners) separately at the end. Refer to people by name and keep it brief.",
+      history.has_more
+        ? `Only the latest ${MAX_PROMPT_MESSAGES} messages are included; say so in the summary.`
+        : "",
+      "Messages:",
+      dataBlock((await renderReadable(slack, history)).messages, context),
+    ]
+      .filter(Boolean)
+      .join("\n\n");
+  },
+};
+
+const draftReplyPrompt: PromptDefinition = {
+  name: "draft_reply",
+  description: "Draft a reply to a thread, for review before it is posted",
+  arguments: [
+    { name: "channel_id", description: "The channel containing the thread", required: true },
+    { name: "thread_ts", description: "Timestamp of the thread's parent message", required: true },
+    {
+      name: "tone",
+      description: 'How the reply should sound, e.g. "friendly", "formal" or "direct" (default: friendly and concise)',
+    },
+  ],
+  tools: ["slack_get_thread_replies"],
+  async build(args, context) {
+    const { slack, policy } = context;
+    const channelId = requireArgument(args, "channel_id");
+    const threadTs = requireArgument(args, "thread_ts");
+    policy?.checkRead(channelId, "slack_get_thread_replies");
+    const tone = args.tone?.trim() || "friendly and concise";
+    const thread = await slack.getAllThreadReplies(channelId, threadTs, MAX_PROMPT_MESSAGES);
+
+    return [
+      `Draft a reply to the Slack thread below (channel ${channelId}, thread_ts ${threadTs}).`,
+      `The tone should be ${tone}. Answer what is still open in the latest messages, do not repeat what has been said, and use Slack formatting. Show the draft and wait for approval before posting it with slack_reply_to_thread.`,
+      "Thread:",
+      dataBlock((await renderReadable(slack, thread)).messages, context),
+    ].join("\n\n");
+  },
+};
+
+const standupDigestPrompt: PromptDefinition = {
+  name: "standup_digest",
+  description: "Write a stand-up digest of recent activity across several channels",
+  arguments: [
+    {
+      name: "channel_ids",
+      description: `Comma-separated channel IDs (at most ${MAX_DIGEST_CHANNELS})`,
+      required: true,
+    },
+    {
+      name: "since",
+      description: `Start of the period (default: ${DEFAULT_SINCE})`,
+    },
+  ],
+  tools: ["slack_get_channel_history"],
+  async build(args, context) {
+    const { slack, policy } = context;
+    const channelIds = requireArgument(args, "channel_ids")
+      .split(",")
+      .map((id) => id.trim())
+      .filter(Boolean);
+    if (channelIds.length > MAX_DIGEST_CHANNELS) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        `At most ${MAX_DIGEST_CHANNELS} channels can be included in a digest`,
+      );
+    }
+    for (const channelId of channelIds) {
+      policy?.checkRead(channelId, "slack_get_channel_history");
+    }
+    const since = args.since || DEFAULT_SINCE;
+    const oldest = parseTimeBound("since", since);
+
+    const channels = await mapConcurrent(channelIds, DIGEST_CONCURRENCY, async (channelId) => {
+      const [info, history] = await Promise.all([
+        slack.getChannelInfo(channelId),
+        slack.getAllChannelHistory(channelId, MAX_PROMPT_MESSAGES, { oldest }),
+      ]);
+      return {
+        channel_id: channelId,
+        channel: info.channel?.name,
+        messages: (await renderReadable(slack, history)).messages,
+      };
+    });
+
+    return [
+      `Write a stand-up digest of these Slack channels since ${since}.`,
+      "For each channel give a short heading and bullets for: what got done, what is in progress, and blockers or questions that need someone's attention (name the person). Skip channels with nothing of substance and finish with the three most important items overall.",
+      "Channels:",
+      dataBlock(channels, context),
+    ].join("\n\n");
+  },
+};
+
+const findActionItemsPrompt: PromptDefinition = {
+  name: "find_action_items",
+  description: "List the action items agreed in a thread",
+  arguments: [
+    {
+      name: "thread",
+      description: "A Slack link to the thread (or any reply in it), or <channel_id>/<thread_ts>",
+      required: true,
+    },
+  ],
+  tools: ["slack_get_thread_replies"],
+  async build(args, context) {
+    const { slack, policy } = context;
+    const { channel_id, thread_ts } = parseThreadReference(requireArgument(args, "thread"));
+    policy?.checkRead(channel_id, "slack_get_thread_replies");
+    const thread = await slack.getAllThreadReplies(channel_id, thread_ts, MAX_PROMPT_MESSAGES);
+
+    return [
+      `Find the action items in the Slack thread below (channel ${channel_id}, thread_ts ${thread_ts}).`,
+      "List each one as: the task, its owner (or \"unassigned\"), the due date if one was mentioned, and the ts of the message it comes from. Only include things someone agreed or was asked to do; leave out ideas that were dropped. Say so if there are none.",
+      "Thread:",
+      dataBlock((await renderReadable(slack, thread)).messages, context),
+    ].join("\n\n");
+  },
+};
+
+const prompts: PromptDefinition[] = [
+  summarizeChannelPrompt,
+  draftReplyPrompt,
+  standupDigestPrompt,
+  findActionItemsPrompt,
+];
+
+function isPromptAllowed(prompt: PromptDefinition, context: ToolContext): boolean {
+  return prompt.tools.every((tool) => isAllowed(tool, context));
+}
+
+export function listPrompts(context: ToolContext): Prompt[] {
+  return prompts
+    .filter((prompt) => isPromptAllowed(prompt, context))
+    .map(({ tools, build, ...prompt }) => prompt);
+}
+
+export async function getPrompt(
+  name: string,
+  args: Record<string, string> | undefined,
+  context: ToolContext,
+): Promise<GetPromptResult> {
+  const prompt = prompts.find((candidate) => candidate.name === name);
+  if (!prompt) {
+    throw new McpError(ErrorCode.InvalidParams, `Unknown prompt: ${name}`);
+  }
+  if (!isPromptAllowed(prompt, context)) {
+    throw new McpError(
+      ErrorCode.InvalidRequest,
+      `Prompt ${name} is not allowed for ${context.caller?.name}`,
+    );
+  }
+
+  let text: string;
+  try {
+    text = await prompt.build(args ?? {}, context);
+  } catch (error) {
+    throw toMcpError(error);
+  }
+  return {
+    description: prompt.description,
+    messages: [{ role: "user", content: { type: "text", text } }],
+  };
+}
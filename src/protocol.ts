@@ -0,0 +1,16 @@
+// MCP protocol versions this server speaks. The SDK it is built on predates
+// 2025-03-26, the revision that defines Streamable HTTP, so the list is kept
+// here rather than taken from the SDK.
+import { SUPPORTED_PROTOCOL_VERSIONS as SDK_PROTOCOL_VERSIONS } from "@modelcontextprotocol/sdk/types.js";
+
+export const LATEST_PROTOCOL_VERSION = "2025-03-26";
+
+export const SUPPORTED_PROTOCOL_VERSIONS = [
+  LATEST_PROTOCOL_VERSION,
+  ...SDK_PROTOCOL_VERSIONS.filter((version) => version !== LATEST_PROTOCOL_VERSION),
+];
+
+// The version a client asked for when it is supported, else the latest
+export function negotiateProtocolVersion(requested: string): string {
+  return SUPPORTED_PROTOCOL_VERSIONS.includes(requested) ? requested : LATEST_PROTOCOL_VERSION;
+}
@@ -0,0 +1,153 @@
+// Client-side pacing of Slack Web API calls, so bursts from agents queue up
+// instead of being rejected with `ratelimited`.
+
+// Requests per minute and burst size of Slack's rate limit tiers
+const TIERS = {
+  1: { perMinute: 1, burst: 1 },
+  2: { perMinute: 20, burst: 3 },
+  3: { perMinute: 50, burst: 5 },
+  4: { perMinute: 100, burst: 10 },
+};
+
+type Tier = keyof typeof TIERS;
+
+// Tier of each method the server calls; anything else is treated as Tier 3
+const METHOD_TIERS: Record<string, Tier> = {
+  "conversations.list": 2,
+  "conversations.info": 3,
+  "conversations.history": 3,
+  "conversations.replies": 3,
+  "conversations.open": 3,
+  "users.conversations": 3,
+  "users.list": 2,
+  "users.info": 4,
+  "users.profile.get": 4,
+  "emoji.list": 2,
+  "search.messages": 2,
+  "reactions.add": 3,
+  "files.getUploadURLExternal": 4,
+  "files.completeUploadExternal": 4,
+  "files.info": 4,
+  "apps.connections.open": 1,
+};
+
+// Methods limited per channel rather than per workspace
+const PER_CHANNEL_LIMITS: Record<string, { perMinute: number; burst: number }> = {
+  // Slack allows about one message per second in each channel
+  "chat.postMessage": { perMinute: 60, burst: 1 },
+};
+
+export class TimeoutError extends Error {
+  constructor() {
+    super("Timed out");
+    this.name = "TimeoutError";
+  }
+}
+
+// Wait `ms` milliseconds, rejecting with TimeoutError if `signal` aborts first
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new TimeoutError());
+      return;
+    }
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    function onAbort() {
+      clearTimeout(timer);
+      reject(new TimeoutError());
+    }
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+class TokenBucket {
+  private capacity: number;
+  private perSecond: number;
+  private tokens: number;
+  private updated = Date.now();
+  // Set from Retry-After; nothing is sent before this time
+  blockedUntil = 0;
+
+  constructor(perMinute: number, burst: number) {
+    this.capacity = burst;
+    this.perSecond = perMinute / 60;
+    this.tokens = burst;
+  }
+
+  // Take a token if one is available, else return the milliseconds to wait
+  take(): number {
+    const now = Date.now();
+    this.tokens = Math.min(
+      this.capacity,
+      this.tokens + ((now - this.updated) / 1000) * this.perSecond,
+    );
+    this.updated = now;
+
+    if (now < this.blockedUntil) {
+      return this.blockedUntil - now;
+    }
+    if (this.tokens >= 1) {
+      this.tokens -= 1;
+      return 0;
+    }
+    return Math.ceil(((1 - this.tokens) / this.perSecond) * 1000);
+  }
+}
+
+/**
+ * Token buckets per method (and per channel for chat.postMessage). Slack's
+ * limits apply per app and workspace, so one limiter should be shared by
+ * every client using the same app.
+ */
+export class RateLimiter {
+  private buckets = new Map<string, TokenBucket>();
+
+  // Wait until a call to `method` may be sent
+  async acquire(method: string, channel?: string, signal?: AbortSignal): Promise<void> {
+    const bucket = this.bucket(method, channel);
+    for (let wait = bucket.take(); wait > 0; wait = bucket.take()) {
+      await sleep(wait, signal);
+    }
+  }
+
+  // Hold back calls to `method` after Slack answered with Retry-After
+  pause(method: string, channel: string | undefined, seconds: number) {
+    const bucket = this.bucket(method, channel);
+    bucket.blockedUntil = Math.max(bucket.blockedUntil, Date.now() + seconds * 1000);
+  }
+
+  private bucket(method: string, channel?: string): TokenBucket {
+    const perChannel = PER_CHANNEL_LIMITS[method];
+    const key = perChannel && channel ? `${method}:${channel}` : method;
+
+    let bucket = this.buckets.get(key);
+    if (!bucket) {
+      const limit = perChannel ?? TIERS[METHOD_TIERS[method] ?? 3];
+      bucket = new TokenBucket(limit.perMinute, limit.burst);
+      this.buckets.set(key, bucket);
+    }
+    return bucket;
+  }
+}
+
+export interface RetryPolicy {
+  // Retries after the first attempt
+  maxRetries: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxRetries: 3,
+  baseDelayMs: 500,
+  maxDelayMs: 10_000,
+};
+
+// Exponential backoff with "equal jitter": half fixed, half random
+export function backoffDelay(policy: RetryPolicy, attempt: number): number {
+  const delay = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** attempt);
+  return delay / 2 + Math.random() * (delay / 2);
+}
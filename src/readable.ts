@@ -0,0 +1,198 @@
+// Compact rendering of Slack messages for language models: IDs resolved to
+// names, mrkdwn turned into Markdown and the bookkeeping fields dropped.
+import { mapConcurrent } from "./concurrency.js";
+import { SlackClient } from "./slack-client.js";
+
+export type MessageFormat = "raw" | "readable";
+
+// Names for the user and channel IDs seen in a batch of messages
+export interface ResolvedNames {
+  users: Map<string, string>;
+  channels: Map<string, string>;
+}
+
+// Name lookups in flight at once
+const LOOKUP_CONCURRENCY = 5;
+
+const REFERENCE = /<([^<>\n]+)>/g;
+const CODE = /(```[\s\S]*?```|`[^`\n]+`)/;
+
+function decodeEntities(text: string): string {
+  return text.replace(/&lt;/g, "<").replace(/&gt;/g, ">").replace(/&amp;/g, "&");
+}
+
+function renderReference(reference: string, names: ResolvedNames): string {
+  const [target, label] = reference.split("|", 2);
+
+  if (target.startsWith("@")) {
+    const id = target.slice(1);
+    return `@${label || names.users.get(id) || id}`;
+  }
+  if (target.startsWith("#")) {
+    const id = target.slice(1);
+    return `#${label || names.channels.get(id) || id}`;
+  }
+  if (target.startsWith("!")) {
+    // Special mentions (<!here>), user groups and formatted dates
+    if (label) {
+      return label;
+    }
+    const keyword = target.slice(1).split("^")[0];
+    return `@${keyword}`;
+  }
+
+  const url = decodeEntities(target);
+  if (!label) {
+    return url.replace(/^mailto:/, "");
+  }
+  return `[${decodeEntities(label)}](${url})`;
+}
+
+// Convert mrkdwn emphasis to Markdown outside of code. Bold goes first so
+// the italics it produces are not doubled again.
+function convertEmphasis(text: string): string {
+  const boundary = "(^|[\\s(\\[\"'])";
+  const end = "(?=$|[\\s).,!?:;\\]\"'])";
+  return text
+    .replace(new RegExp(`${boundary}\\*([^*\\n]+)\\*${end}`, "g"), "$1**$2**")
+    .replace(new RegExp(`${boundary}_([^_\\n]+)_${end}`, "g"), "$1*$2*")
+    .replace(new RegExp(`${boundary}~([^~\\n]+)~${end}`, "g"), "$1~~$2~~");
+}
+
+/**
+ * Convert Slack mrkdwn to Markdown: mentions become @name and #channel,
+ * links become [label](url), *bold*, _italic_ and ~strike~ become their
+ * Markdown equivalents and HTML entities are decoded. Code is left alone.
+ */
+export function mrkdwnToMarkdown(text: string, names: ResolvedNames): string {
+  return text
+    .split(CODE)
+    .map((segment, index) => {
+      // split() with a capture group puts code at the odd indexes
+      if (index % 2 === 1) {
+        return decodeEntities(segment);
+      }
+      const references: string[] = [];
+      const protectedText = segment.replace(REFERENCE, (_, reference: string) => {
+        references.push(renderReference(reference, names));
+        return `\u0000${references.length - 1}\u0000`;
+      });
+      return decodeEntities(convertEmphasis(protectedText)).replace(
+        /\u0000(\d+)\u0000/g,
+        (_, index: string) => references[Number(index)],
+      );
+    })
+    .join("");
+}
+
+function toIsoDate(ts: string | undefined): string | undefined {
+  if (!ts) {
+    return undefined;
+  }
+  const seconds = Number(ts);
+  return Number.isFinite(seconds) ? new Date(seconds * 1000).toISOString() : undefined;
+}
+
+function collectIds(messages: any[]): { users: Set<string>; channels: Set<string> } {
+  const users = new Set<string>();
+  const channels = new Set<string>();
+  for (const message of messages) {
+    if (message.user) {
+      users.add(message.user);
+    }
+    for (const match of String(message.text ?? "").matchAll(REFERENCE)) {
+      const [target, label] = match[1].split("|", 2);
+      if (label) {
+        continue;
+      }
+      if (target.startsWith("@")) {
+        users.add(target.slice(1));
+      } else if (target.startsWith("#")) {
+        channels.add(target.slice(1));
+      }
+    }
+  }
+  return { users, channels };
+}
+
+/**
+ * Look up display names for the users and channels the messages refer to.
+ * IDs that cannot be resolved are left out, so callers fall back to the ID.
+ */
+export async function resolveNames(
+  slack: SlackClient,
+  messages: any[],
+): Promise<ResolvedNames> {
+  const ids = collectIds(messages);
+  const names: ResolvedNames = { users: new Map(), channels: new Map() };
+
+  await mapConcurrent([...ids.users], LOOKUP_CONCURRENCY, async (id) => {
+    try {
+      const { profile } = await slack.getUserProfile(id);
+      const name = profile?.display_name || profile?.real_name;
+      if (name) {
+        names.users.set(id, name);
+      }
+    } catch (error) {
+      console.error(`Could not resolve user ${id}:`, error);
+    }
+  });
+  await mapConcurrent([...ids.channels], LOOKUP_CONCURRENCY, async (id) => {
+    try {
+      const { channel } = await slack.getChannelInfo(id);
+      if (channel?.name) {
+        names.channels.set(id, channel.name);
+      }
+    } catch (error) {
+      console.error(`Could not resolve channel ${id}:`, error);
+    }
+  });
+  return names;
+}
+
+export function renderMessage(message: any, names: ResolvedNames): Record<string, unknown> {
+  const author = message.user
+    ? names.users.get(message.user) ?? message.user
+    : message.bot_profile?.name ?? message.username;
+
+  return {
+    ts: message.ts,
+    time: toIsoDate(message.ts),
+    user: author,
+    user_id: message.user,
+    subtype: message.subtype,
+    text: mrkdwnToMarkdown(String(message.text ?? ""), names),
+    thread_ts: message.thread_ts,
+    reply_count: message.reply_count,
+    latest_reply: toIsoDate(message.latest_reply),
+    edited: message.edited ? toIsoDate(message.edited.ts) : undefined,
+    reactions: message.reactions?.map(
+      (reaction: any) => `:${reaction.name}: ${reaction.count}`,
+    ),
+    // The id is what slack_get_file takes
+    files: message.files?.map((file: any) => ({
+      id: file.id,
+      name: file.name,
+      title: file.title,
+      url: file.permalink,
+    })),
+    attachments: message.attachments
+      ?.map((attachment: any) => attachment.fallback ?? attachment.text)
+      .filter(Boolean),
+  };
+}
+
+/**
+ * Replace the messages of a history or replies response with their readable
+ * form, keeping only the paging fields.
+ */
+export async function renderReadable(slack: SlackClient, response: any): Promise<any> {
+  const messages: any[] = response.messages ?? [];
+  const names = await resolveNames(slack, messages);
+  return {
+    ok: response.ok,
+    messages: messages.map((message) => renderMessage(message, names)),
+    has_more: response.has_more,
+    next_cursor: response.next_cursor,
+  };
+}
@@ -0,0 +1,290 @@
+// Redaction of secrets and personal data: masked in what is read from Slack
+// before it reaches the model, and masked or refused in what is written.
+import { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
+import { ToolError } from "./errors.js";
+import { ID_ARGUMENTS } from "./policy.js";
+
+export type ReadMode = "mask" | "off";
+export type WriteMode = "mask" | "block" | "off";
+
+export interface RedactionConfig {
+  // Default "mask"
+  read?: ReadMode;
+  // Default "block"
+  write?: WriteMode;
+  // Built-in detectors to use; default all of them
+  detectors?: string[];
+  // Extra detectors: name to regular expression (case-sensitive)
+  custom?: Record<string, string>;
+}
+
+export interface RedactionEnv {
+  // Redaction settings as JSON
+  SLACK_REDACTION?: string;
+}
+
+// Redactions made, by detector
+export type RedactionCounts = Record<string, number>;
+
+interface Detector {
+  name: string;
+  pattern: RegExp;
+  // Rejects matches that only look like the real thing
+  accept?: (match: string) => boolean;
+}
+
+// Card numbers pass the Luhn checksum
+function luhn(match: string): boolean {
+  const digits = match.replace(/\D/g, "");
+  if (digits.length < 13 || digits.length > 19) {
+    return false;
+  }
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    let digit = Number(digits[digits.length - 1 - i]);
+    if (i % 2 === 1) {
+      digit *= 2;
+      if (digit > 9) {
+        digit -= 9;
+      }
+    }
+    sum += digit;
+  }
+  return sum % 10 === 0;
+}
+
+const BUILT_IN_DETECTORS: Record<string, Omit<Detector, "name">[]> = {
+  aws: [
+    { pattern: /\b(?:AKIA|ASIA)[0-9A-Z]{16}\b/g },
+    { pattern: /\baws_secret_access_key\s*[:=]\s*["']?[A-Za-z0-9/+=]{40}\b/gi },
+  ],
+  gcp: [
+    { pattern: /\bAIza[0-9A-Za-z_-]{35}\b/g },
+    { pattern: /\bya29\.[0-9A-Za-z_-]{20,}/g },
+  ],
+  slack: [
+    { pattern: /\bxox[abposr]-[0-9A-Za-z-]{10,}/g },
+    { pattern: /\bxapp-\d-[0-9A-Za-z-]{10,}/g },
+    { pattern: /https:\/\/hooks\.slack\.com\/services\/[A-Za-z0-9/]+/g },
+  ],
+  jwt: [{ pattern: /\beyJ[0-9A-Za-z_-]{5,}\.eyJ[0-9A-Za-z_-]{5,}\.[0-9A-Za-z_-]{10,}/g }],
+  private_key: [
+    {
+      pattern:
+        /-----BEGIN (?:[A-Z]+ )?PRIVATE KEY-----[\s\S]*?(?:-----END (?:[A-Z]+ )?PRIVATE KEY-----|$)/g,
+    },
+  ],
+  credit_card: [{ pattern: /\b\d(?:[ -]?\d){12,18}\b/g, accept: luhn }],
+  email: [{ pattern: /\b[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}\b/g }],
+  // International numbers, or local ones written in groups of digits that
+  // are not part of a longer run, so that Slack timestamps, dates and IDs
+  // are left alone
+  phone: [
+    { pattern: /(?<![\w+])\+\d{7,15}\b/g },
+    {
+      pattern:
+        /(?<![\w.+-]|\d[\s.-])(?:\+\d{1,3}[\s.-]?)?(?:\(\d{2,4}\)\s?|\d{2,4}[\s.-])\d{3,4}[\s.-]\d{3,4}(?![\w.-]|[\s.-]\d)/g,
+    },
+  ],
+};
+
+export const BUILT_IN_DETECTOR_NAMES = Object.keys(BUILT_IN_DETECTORS);
+
+/**
+ * Parse and check redaction settings, so mistakes fail at startup rather
+ * than silently letting data through.
+ */
+export function parseRedactionConfig(json: string): RedactionConfig {
+  let config: any;
+  try {
+    config = JSON.parse(json);
+  } catch {
+    throw new Error("SLACK_REDACTION is not valid JSON");
+  }
+  if (typeof config !== "object" || config === null || Array.isArray(config)) {
+    throw new Error("SLACK_REDACTION must be an object");
+  }
+  if (config.read !== undefined && !["mask", "off"].includes(config.read)) {
+    throw new Error('SLACK_REDACTION read must be "mask" or "off"');
+  }
+  if (config.write !== undefined && !["mask", "block", "off"].includes(config.write)) {
+    throw new Error('SLACK_REDACTION write must be "mask", "block" or "off"');
+  }
+  const unknown = (config.detectors ?? []).filter(
+    (name: unknown) => typeof name !== "string" || !BUILT_IN_DETECTORS[name],
+  );
+  if (!Array.isArray(config.detectors ?? []) || unknown.length > 0) {
+    throw new Error(
+      `SLACK_REDACTION detectors must be a list of ${BUILT_IN_DETECTOR_NAMES.join(", ")}`,
+    );
+  }
+  for (const [name, source] of Object.entries(config.custom ?? {})) {
+    try {
+      new RegExp(source as string, "g");
+    } catch {
+      throw new Error(`Invalid regular expression for SLACK_REDACTION custom detector ${name}`);
+    }
+  }
+  return config;
+}
+
+export function loadRedaction(env: RedactionEnv): Redactor | undefined {
+  return env.SLACK_REDACTION ? new Redactor(parseRedactionConfig(env.SLACK_REDACTION)) : undefined;
+}
+
+function addCounts(total: RedactionCounts, counts: RedactionCounts) {
+  for (const [name, count] of Object.entries(counts)) {
+    total[name] = (total[name] ?? 0) + count;
+  }
+}
+
+function isEmpty(counts: RedactionCounts): boolean {
+  return Object.keys(counts).length === 0;
+}
+
+export class Redactor {
+  readonly read: ReadMode;
+  readonly write: WriteMode;
+  private detectors: Detector[];
+
+  constructor(config: RedactionConfig) {
+    this.read = config.read ?? "mask";
+    this.write = config.write ?? "block";
+    this.detectors = [
+      ...(config.detectors ?? BUILT_IN_DETECTOR_NAMES).flatMap((name) =>
+        BUILT_IN_DETECTORS[name].map((detector) => ({ name, ...detector })),
+      ),
+      ...Object.entries(config.custom ?? {}).map(([name, source]) => ({
+        name,
+        pattern: new RegExp(source, "g"),
+      })),
+    ];
+  }
+
+  // Replace every match in `text` with [REDACTED:<detector>]
+  maskText(text: string, counts: RedactionCounts): string {
+    for (const { name, pattern, accept } of this.detectors) {
+      text = text.replace(pattern, (match) => {
+        if (match === "" || (accept && !accept(match))) {
+          return match;
+        }
+        counts[name] = (counts[name] ?? 0) + 1;
+        return `[REDACTED:${name}]`;
+      });
+    }
+    return text;
+  }
+
+  // Mask the strings anywhere in `value`, leaving those under `skip` keys
+  maskValue<T>(value: T, counts: RedactionCounts, skip?: Set<string>, key?: string): T {
+    if (key && skip?.has(key)) {
+      return value;
+    }
+    if (typeof value === "string") {
+      return this.maskText(value, counts) as T;
+    }
+    if (Array.isArray(value)) {
+      return value.map((item) => this.maskValue(item, counts, skip)) as T;
+    }
+    if (value && typeof value === "object") {
+      return Object.fromEntries(
+        Object.entries(value).map(([name, item]) => [name, this.maskValue(item, counts, skip, name)]),
+      ) as T;
+    }
+    return value;
+  }
+
+  // Text that may hold JSON, masked without breaking the JSON
+  private maskContent(text: string, counts: RedactionCounts): string {
+    let data: unknown;
+    try {
+      data = JSON.parse(text);
+    } catch {
+      return this.maskText(text, counts);
+    }
+    const found: RedactionCounts = {};
+    const masked = this.maskValue(data, found);
+    if (isEmpty(found)) {
+      return text;
+    }
+    addCounts(counts, found);
+    return JSON.stringify(masked);
+  }
+
+  /**
+   * Apply the write setting to a tool's arguments. Message content is
+   * masked, or the call refused with `redaction_blocked`; IDs and
+   * timestamps are left alone.
+   */
+  checkOutbound(args: Record<string, unknown>): { args: Record<string, unknown>; counts: RedactionCounts } {
+    const counts: RedactionCounts = {};
+    if (this.write === "off") {
+      return { args, counts };
+    }
+    const masked = this.maskValue(args, counts, ID_ARGUMENTS);
+    if (this.write === "block" && !isEmpty(counts)) {
+      const found = Object.entries(counts).map(([name, count]) => `${name}: ${count}`).join(", ");
+      throw new ToolError(
+        "redaction_blocked",
+        `The message contains sensitive data (${found}), which may not be sent`,
+        "Remove it and try again.",
+      );
+    }
+    return { args: masked, counts };
+  }
+
+  // Mask the text of a tool result according to the read setting
+  maskResult(result: CallToolResult, counts: RedactionCounts): CallToolResult {
+    if (this.read === "off") {
+      return result;
+    }
+    return {
+      ...result,
+      content: result.content.map((item) => {
+        if (item.type === "text") {
+          return { ...item, text: this.maskContent(item.text, counts) };
+        }
+        if (item.type === "resource" && typeof item.resource.text === "string") {
+          return {
+            ...item,
+            resource: { ...item.resource, text: this.maskContent(item.resource.text, counts) },
+          };
+        }
+        return item;
+      }),
+    };
+  }
+}
+
+/**
+ * Report what was redacted in a tool result: as a `redactions` field of its
+ * first JSON object, or in a text block of its own.
+ */
+export function reportRedactions(
+  result: CallToolResult,
+  redactions: { inbound?: RedactionCounts; outbound?: RedactionCounts },
+): CallToolResult {
+  const report = Object.fromEntries(
+    Object.entries(redactions).filter(([, counts]) => counts && !isEmpty(counts)),
+  );
+  if (Object.keys(report).length === 0) {
+    return result;
+  }
+
+  const content = [...result.content];
+  const index = content.findIndex((item) => item.type === "text");
+  const first = content[index];
+  if (first?.type === "text") {
+    try {
+      const data = JSON.parse(first.text);
+      if (data && typeof data === "object" && !Array.isArray(data)) {
+        content[index] = { ...first, text: JSON.stringify({ ...data, redactions: report }) };
+        return { ...result, content };
+      }
+    } catch {
+      // Not JSON; reported separately below
+    }
+  }
+  content.push({ type: "text", text: JSON.stringify({ redactions: report }) });
+  return { ...result, content };
+}
@@ -0,0 +1,275 @@
+// Slack data exposed as MCP resources, so clients can attach a channel,
+// thread or user as context without the model calling a tool.
+import {
+  ErrorCode,
+  McpError,
+  ReadResourceResult,
+  Resource,
+  ResourceTemplate,
+} from "@modelcontextprotocol/sdk/types.js";
+import { mapConcurrent } from "./concurrency.js";
+import { toMcpError } from "./errors.js";
+import { renderReadable } from "./readable.js";
+import { SlackClient } from "./slack-client.js";
+import { ToolContext, isAllowed } from "./tools/index.js";
+
+// Messages of a channel resource, newest first
+const CHANNEL_MESSAGES = 50;
+// Replies of a thread resource, parent included
+const THREAD_MESSAGES = 500;
+// conversations.list pages read for slack://channels
+const MAX_CHANNEL_PAGES = 5;
+// How often subscribed channels and threads are checked for new messages
+const POLL_INTERVAL_MS = 30_000;
+const POLL_CONCURRENCY = 5;
+
+export const RESOURCE_TEMPLATES: ResourceTemplate[] = [
+  {
+    uriTemplate: "slack://channel/{channel_id}",
+    name: "Channel history",
+    description: `The latest ${CHANNEL_MESSAGES} messages of a channel, with names resolved`,
+    mimeType: "application/json",
+  },
+  {
+    uriTemplate: "slack://thread/{channel_id}/{thread_ts}",
+    name: "Thread",
+    description: "A message and its replies, with names resolved",
+    mimeType: "application/json",
+  },
+  {
+    uriTemplate: "slack://user/{user_id}",
+    name: "User",
+    description: "A user's profile and time zone",
+    mimeType: "application/json",
+  },
+];
+
+type SlackResource =
+  | { kind: "channels" }
+  | { kind: "channel"; channel_id: string }
+  | { kind: "thread"; channel_id: string; thread_ts: string }
+  | { kind: "user"; user_id: string };
+
+// Tool whose permission a caller needs to read each kind of resource
+const RESOURCE_TOOLS: Record<SlackResource["kind"], string> = {
+  channels: "slack_list_channels",
+  channel: "slack_get_channel_history",
+  thread: "slack_get_thread_replies",
+  user: "slack_get_user_profile",
+};
+
+function parseResourceUri(uri: string): SlackResource {
+  if (uri === "slack://channels") {
+    return { kind: "channels" };
+  }
+  const channel = uri.match(/^slack:\/\/channel\/([A-Za-z0-9]+)$/);
+  if (channel) {
+    return { kind: "channel", channel_id: channel[1] };
+  }
+  const thread = uri.match(/^slack:\/\/thread\/([A-Za-z0-9]+)\/(\d+\.\d+)$/);
+  if (thread) {
+    return { kind: "thread", channel_id: thread[1], thread_ts: thread[2] };
+  }
+  const user = uri.match(/^slack:\/\/user\/([A-Za-z0-9]+)$/);
+  if (user) {
+    return { kind: "user", user_id: user[1] };
+  }
+  throw new McpError(ErrorCode.InvalidParams, `Unknown resource: ${uri}`);
+}
+
+function parseAllowedUri(uri: string, context: ToolContext): SlackResource {
+  const resource = parseResourceUri(uri);
+  if (!isAllowed(RESOURCE_TOOLS[resource.kind], context)) {
+    throw new McpError(
+      ErrorCode.InvalidRequest,
+      `Resource ${uri} is not allowed for ${context.caller?.name}`,
+    );
+  }
+  if (resource.kind === "channel" || resource.kind === "thread") {
+    try {
+      context.policy?.checkRead(resource.channel_id, RESOURCE_TOOLS[resource.kind]);
+    } catch (error) {
+      throw toMcpError(error);
+    }
+  }
+  return resource;
+}
+
+async function listAllChannels(slack: SlackClient): Promise<any[]> {
+  const channels: any[] = [];
+  let cursor: string | undefined;
+  for (let page = 0; page < MAX_CHANNEL_PAGES; page++) {
+    const response = await slack.getChannels(200, cursor);
+    channels.push(...response.channels);
+    cursor = response.response_metadata?.next_cursor;
+    if (!cursor) {
+      break;
+    }
+  }
+  return channels;
+}
+
+// slack://channels plus one resource per channel; users are only reachable
+// through the template, as workspaces can have thousands
+export async function listResources(context: ToolContext): Promise<Resource[]> {
+  const resources: Resource[] = [];
+  if (isAllowed(RESOURCE_TOOLS.channels, context)) {
+    resources.push({
+      uri: "slack://channels",
+      name: "Channels",
+      description: "The channels this server can see",
+      mimeType: "application/json",
+    });
+  }
+  if (isAllowed(RESOURCE_TOOLS.channel, context)) {
+    try {
+      const { channels } = await context.slack.getChannels(200);
+      const readable = channels.filter(
+        (channel) => context.policy?.allowsRead(channel.id, RESOURCE_TOOLS.channel) ?? true,
+      );
+      for (const channel of readable) {
+        resources.push({
+          uri: `slack://channel/${channel.id}`,
+          name: `#${channel.name}`,
+          description: channel.purpose?.value || undefined,
+          mimeType: "application/json",
+        });
+      }
+    } catch (error) {
+      throw toMcpError(error);
+    }
+  }
+  return resources;
+}
+
+async function loadResource(resource: SlackResource, context: ToolContext): Promise<unknown> {
+  const { slack, policy } = context;
+  switch (resource.kind) {
+    case "channels":
+      return (await listAllChannels(slack))
+        .filter((channel) => policy?.allowsRead(channel.id, RESOURCE_TOOLS.channels) ?? true)
+        .map((channel) => ({
+          id: channel.id,
+          name: channel.name,
+          topic: channel.topic?.value || undefined,
+          purpose: channel.purpose?.value || undefined,
+          num_members: channel.num_members,
+        }));
+    case "channel":
+      return renderReadable(
+        slack,
+        await slack.getChannelHistory(resource.channel_id, CHANNEL_MESSAGES),
+      );
+    case "thread":
+      return renderReadable(
+        slack,
+        await slack.getAllThreadReplies(resource.channel_id, resource.thread_ts, THREAD_MESSAGES),
+      );
+    case "user":
+      return (await slack.getUserInfo(resource.user_id)).user;
+  }
+}
+
+export async function readResource(
+  uri: string,
+  context: ToolContext,
+): Promise<ReadResourceResult> {
+  const resource = parseAllowedUri(uri, context);
+  try {
+    let data = await loadResource(resource, context);
+    if (context.redaction?.read === "mask") {
+      data = context.redaction.maskValue(data, {});
+    }
+    return {
+      contents: [{ uri, mimeType: "application/json", text: JSON.stringify(data) }],
+    };
+  } catch (error) {
+    throw toMcpError(error);
+  }
+}
+
+// What changes when a message arrives: the newest message of a channel, or
+// the latest reply of a thread
+async function latestMessage(resource: SlackResource, slack: SlackClient): Promise<string | undefined> {
+  if (resource.kind === "channel") {
+    const response = await slack.getChannelHistory(resource.channel_id, 1);
+    return response.messages?.[0]?.ts;
+  }
+  if (resource.kind === "thread") {
+    const response = await slack.getThreadReplies(resource.channel_id, resource.thread_ts, 1);
+    const parent = response.messages?.[0];
+    return parent?.latest_reply ?? parent?.ts;
+  }
+  return undefined;
+}
+
+/**
+ * Resource subscriptions of one MCP session. Slack does not push anything to
+ * the Web API, so subscribed channels and threads are polled while the
+ * session lasts and `notify` is called for those with new messages.
+ */
+export class ResourceSubscriptions {
+  private context: ToolContext;
+  private notify: (uri: string) => Promise<void>;
+  private subscriptions = new Map<string, { resource: SlackResource; latest?: string }>();
+  private timer?: ReturnType<typeof setInterval>;
+  private polling = false;
+
+  constructor(context: ToolContext, notify: (uri: string) => Promise<void>) {
+    this.context = context;
+    this.notify = notify;
+  }
+
+  async subscribe(uri: string): Promise<void> {
+    const resource = parseAllowedUri(uri, this.context);
+    if (resource.kind !== "channel" && resource.kind !== "thread") {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        "Only channel and thread resources can be subscribed to",
+      );
+    }
+    let latest: string | undefined;
+    try {
+      latest = await latestMessage(resource, this.context.slack);
+    } catch (error) {
+      throw toMcpError(error);
+    }
+    this.subscriptions.set(uri, { resource, latest });
+    this.timer ??= setInterval(() => this.poll(), POLL_INTERVAL_MS);
+  }
+
+  unsubscribe(uri: string) {
+    this.subscriptions.delete(uri);
+    if (this.subscriptions.size === 0) {
+      this.close();
+    }
+  }
+
+  close() {
+    clearInterval(this.timer);
+    this.timer = undefined;
+  }
+
+  private async poll() {
+    // Skip a round rather than overlap when Slack is slow
+    if (this.polling) {
+      return;
+    }
+    this.polling = true;
+    try {
+      await mapConcurrent([...this.subscriptions], POLL_CONCURRENCY, async ([uri, subscription]) => {
+        try {
+          const latest = await latestMessage(subscription.resource, this.context.slack);
+          if (latest !== subscription.latest && this.subscriptions.has(uri)) {
+            subscription.latest = latest;
+            await this.notify(uri);
+          }
+        } catch (error) {
+          console.error(`Could not check ${uri} for new messages:`, error);
+        }
+      });
+    } finally {
+      this.polling = false;
+    }
+  }
+}
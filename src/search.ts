@@ -0,0 +1,241 @@
+// Local message search for bot-token deployments, which cannot call
+// search.messages: scan the allowlisted channels and filter the history with
+// the same query syntax Slack uses.
+import { SlackApiError } from "./errors.js";
+import { SearchMessagesOptions, SlackClient } from "./slack-client.js";
+import { toSlackTs } from "./time.js";
+
+// History pulled from each channel before giving up on older messages
+const MAX_SCAN_MESSAGES_PER_CHANNEL = 1000;
+const DAY_SECONDS = 24 * 60 * 60;
+
+export interface ParsedQuery {
+  // Lowercased words and quoted phrases that must all appear
+  terms: string[];
+  // in: targets, as channel IDs or names without the leading #
+  channels: string[];
+  // from: targets, as user IDs or names without the leading @
+  users: string[];
+  // Unix seconds, exclusive bounds
+  after?: number;
+  before?: number;
+  has: string[];
+  // Modifiers the local scan cannot evaluate
+  unsupported: string[];
+}
+
+const SUPPORTED_HAS = ["link", "reaction", "pin"];
+
+// Start and end (unix seconds) of a date modifier value, in UTC
+function dateRange(value: string, now: Date): [number, number] | undefined {
+  const today = Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()) / 1000;
+  if (value === "today") {
+    return [today, today + DAY_SECONDS];
+  }
+  if (value === "yesterday") {
+    return [today - DAY_SECONDS, today];
+  }
+
+  const day = value.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  if (day) {
+    const start = Date.UTC(Number(day[1]), Number(day[2]) - 1, Number(day[3])) / 1000;
+    return [start, start + DAY_SECONDS];
+  }
+  const month = value.match(/^(\d{4})-(\d{2})$/);
+  if (month) {
+    const start = Date.UTC(Number(month[1]), Number(month[2]) - 1, 1) / 1000;
+    const end = Date.UTC(Number(month[1]), Number(month[2]), 1) / 1000;
+    return [start, end];
+  }
+  return undefined;
+}
+
+// Strip Slack's <#C123|name> / <@U123> wrapping and leading sigils
+function unwrapReference(value: string): string {
+  const match = value.match(/^<[#@]([A-Z0-9]+)(?:\|[^>]*)?>$/);
+  if (match) {
+    return match[1];
+  }
+  return value.replace(/^[#@]/, "");
+}
+
+export function parseSearchQuery(query: string, now = new Date()): ParsedQuery {
+  const parsed: ParsedQuery = {
+    terms: [],
+    channels: [],
+    users: [],
+    has: [],
+    unsupported: [],
+  };
+
+  const tokens = query.match(/"[^"]*"|\S+/g) ?? [];
+  for (const token of tokens) {
+    if (token.startsWith('"')) {
+      const phrase = token.slice(1, -1).trim().toLowerCase();
+      if (phrase) {
+        parsed.terms.push(phrase);
+      }
+      continue;
+    }
+
+    const modifier = token.match(/^([a-z]+):(.+)$/);
+    if (!modifier) {
+      parsed.terms.push(token.toLowerCase());
+      continue;
+    }
+
+    const [, name, value] = modifier;
+    const range = dateRange(value, now);
+    switch (name) {
+      case "in":
+        parsed.channels.push(unwrapReference(value));
+        break;
+      case "from":
+        parsed.users.push(unwrapReference(value));
+        break;
+      case "has":
+        if (SUPPORTED_HAS.includes(value)) {
+          parsed.has.push(value);
+        } else {
+          parsed.unsupported.push(token);
+        }
+        break;
+      case "after":
+        if (range) {
+          parsed.after = Math.max(parsed.after ?? 0, range[1] - 1);
+        } else {
+          parsed.unsupported.push(token);
+        }
+        break;
+      case "before":
+        if (range) {
+          parsed.before = Math.min(parsed.before ?? Infinity, range[0]);
+        } else {
+          parsed.unsupported.push(token);
+        }
+        break;
+      case "on":
+      case "during":
+        if (range) {
+          parsed.after = Math.max(parsed.after ?? 0, range[0] - 1);
+          parsed.before = Math.min(parsed.before ?? Infinity, range[1]);
+        } else {
+          parsed.unsupported.push(token);
+        }
+        break;
+      default:
+        // Not a modifier we know, e.g. a URL: search for it as text
+        parsed.terms.push(token.toLowerCase());
+    }
+  }
+
+  return parsed;
+}
+
+function matchesUser(message: any, users: string[]): boolean {
+  if (users.length === 0) {
+    return true;
+  }
+  const profile = message.user_profile ?? {};
+  const names = [message.user, message.username, profile.name, profile.display_name, profile.real_name]
+    .filter((name): name is string => typeof name === "string")
+    .map((name) => name.toLowerCase());
+  return users.some((user) => names.includes(user.toLowerCase()));
+}
+
+export function matchesQuery(message: any, query: ParsedQuery): boolean {
+  const ts = Number(message.ts);
+  if (query.after !== undefined && !(ts > query.after)) {
+    return false;
+  }
+  if (query.before !== undefined && !(ts < query.before)) {
+    return false;
+  }
+  if (!matchesUser(message, query.users)) {
+    return false;
+  }
+
+  const text = String(message.text ?? "").toLowerCase();
+  if (!query.terms.every((term) => text.includes(term))) {
+    return false;
+  }
+
+  for (const has of query.has) {
+    if (has === "link" && !/<https?:\/\//.test(message.text ?? "")) {
+      return false;
+    }
+    if (has === "reaction" && !(message.reactions?.length > 0)) {
+      return false;
+    }
+    if (has === "pin" && !(message.pinned_to?.length > 0)) {
+      return false;
+    }
+  }
+  return true;
+}
+
+/**
+ * Search the SLACK_CHANNEL_IDS channels by scanning their history, skipping
+ * those `readable` rejects. Results are shaped like search.messages so
+ * callers can treat both modes alike.
+ */
+export async function scanSearch(
+  slack: SlackClient,
+  query: string,
+  options: SearchMessagesOptions = {},
+  readable: (channelId: string) => boolean = () => true,
+): Promise<any> {
+  if (!slack.channelIds) {
+    throw new SlackApiError("search.messages", "not_allowed_token_type");
+  }
+
+  const parsed = parseSearchQuery(query);
+  const { channels } = await slack.getChannels();
+  const targets = channels.filter(
+    (channel) =>
+      readable(channel.id) &&
+      (parsed.channels.length === 0 ||
+        parsed.channels.some(
+          (wanted) => wanted === channel.id || wanted.toLowerCase() === channel.name?.toLowerCase(),
+        )),
+  );
+
+  const matches: any[] = [];
+  for (const channel of targets) {
+    const { messages } = await slack.getAllChannelHistory(
+      channel.id,
+      MAX_SCAN_MESSAGES_PER_CHANNEL,
+      {
+        oldest: parsed.after !== undefined ? toSlackTs(parsed.after) : undefined,
+        latest:
+          parsed.before !== undefined && Number.isFinite(parsed.before)
+            ? toSlackTs(parsed.before)
+            : undefined,
+      },
+    );
+    for (const message of messages) {
+      if (matchesQuery(message, parsed)) {
+        matches.push({ ...message, channel: { id: channel.id, name: channel.name } });
+      }
+    }
+  }
+
+  const direction = options.sort_dir === "asc" ? 1 : -1;
+  matches.sort((a, b) => direction * (Number(a.ts) - Number(b.ts)));
+
+  const count = Math.min(Math.max(Math.floor(options.count ?? 20), 1), 100);
+  const page = Math.max(Math.floor(options.page ?? 1), 1);
+  const pages = Math.max(Math.ceil(matches.length / count), 1);
+  return {
+    ok: true,
+    mode: "channel_scan",
+    query,
+    scanned_channels: targets.map((channel) => channel.id),
+    unsupported_modifiers: parsed.unsupported,
+    messages: {
+      total: matches.length,
+      matches: matches.slice((page - 1) * count, page * count),
+      paging: { count, total: matches.length, page, pages },
+    },
+  };
+}
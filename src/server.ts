@@ -0,0 +1,189 @@
+import { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import {
+  CallToolRequest,
+  CallToolRequestSchema,
+  CallToolResult,
+  ClientCapabilities,
+  GetPromptRequestSchema,
+  InitializeRequestSchema,
+  ListPromptsRequestSchema,
+  ListResourceTemplatesRequestSchema,
+  ListResourcesRequestSchema,
+  ListToolsRequestSchema,
+  McpError,
+  ReadResourceRequestSchema,
+  ResultSchema,
+  ServerCapabilities,
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema,
+} from "@modelcontextprotocol/sdk/types.js";
+import { toolErrorResult } from "./errors.js";
+import { getPrompt, listPrompts } from "./prompts.js";
+import { negotiateProtocolVersion } from "./protocol.js";
+import {
+  RESOURCE_TEMPLATES,
+  ResourceSubscriptions,
+  listResources,
+  readResource,
+} from "./resources.js";
+import { ToolContext, callTool, listTools } from "./tools/index.js";
+
+// Longest a tool call may take, waits for Slack rate limits included
+const TOOL_TIMEOUT_MS = 60_000;
+// How long to wait for the user to approve a held message before leaving it
+// pending, so that there is still time to send it within the call
+const ELICITATION_TIMEOUT_MS = 45_000;
+
+// Run a tool and record it in the audit log. Protocol errors propagate as
+// JSON-RPC errors; anything that goes wrong while the tool runs is reported
+// as a result with isError set.
+async function runTool(
+  name: string,
+  args: Record<string, unknown> | undefined,
+  context: ToolContext,
+): Promise<CallToolResult> {
+  const started = Date.now();
+  const slackMethods: string[] = [];
+  const audit = (outcome: { result?: CallToolResult; error?: unknown }) =>
+    context.audit?.record({
+      caller: context.caller,
+      tool: name,
+      args: args ?? {},
+      redaction: context.redaction,
+      slackMethods,
+      started,
+      ...outcome,
+    });
+
+  let result: CallToolResult;
+  try {
+    const signal = AbortSignal.timeout(TOOL_TIMEOUT_MS);
+    result = await callTool(name, args, {
+      ...context,
+      slack: context.slack.withSignal(
+        signal,
+        (method) => slackMethods.push(method),
+        context.caller?.id,
+      ),
+    });
+  } catch (error) {
+    await audit({ error });
+    if (error instanceof McpError) {
+      throw error;
+    }
+    console.error(`Error executing tool ${name}:`, error);
+    return toolErrorResult(error);
+  }
+  await audit({ result });
+  return result;
+}
+
+export interface ServerOptions {
+  // Offer resource subscriptions (default true). They poll Slack from a
+  // timer, so they need a process that outlives the request, which a
+  // Worker isolate is not.
+  subscriptions?: boolean;
+}
+
+// Build an MCP server with every Slack tool, resource and prompt mounted. Both the stdio
+// entrypoint and the Cloudflare Worker connect their transport to this.
+export function createServer(context: ToolContext, options: ServerOptions = {}): Server {
+  const subscribable = options.subscriptions ?? true;
+  const serverInfo = {
+    name: "Slack MCP Server",
+    version: "1.0.0",
+  };
+  const capabilities: ServerCapabilities = {
+    tools: {},
+    resources: { subscribe: subscribable },
+    prompts: {},
+  };
+  const server = new Server(serverInfo, { capabilities });
+
+  // The SDK only negotiates the versions it knows, so initialize is answered
+  // here, and the client's capabilities are kept here too
+  let clientCapabilities: ClientCapabilities | undefined;
+  server.setRequestHandler(InitializeRequestSchema, async (request) => {
+    clientCapabilities = request.params.capabilities;
+    return {
+      protocolVersion: negotiateProtocolVersion(request.params.protocolVersion),
+      capabilities,
+      serverInfo,
+    };
+  });
+
+  // Elicitation is newer than the SDK, so the request is sent untyped
+  const elicit = async (message: string) => {
+    try {
+      const result = await server.request(
+        {
+          method: "elicitation/create",
+          params: { message, requestedSchema: { type: "object", properties: {} } },
+        },
+        ResultSchema,
+        { timeout: ELICITATION_TIMEOUT_MS },
+      );
+      const action = result.action;
+      return action === "accept" || action === "decline" || action === "cancel" ? action : undefined;
+    } catch (error) {
+      console.error("Could not ask the user to approve an action:", error);
+      return undefined;
+    }
+  };
+
+  server.setRequestHandler(
+    CallToolRequestSchema,
+    async (request: CallToolRequest) => {
+      return runTool(request.params.name, request.params.arguments, {
+        ...context,
+        elicit: clientCapabilities?.elicitation ? elicit : undefined,
+      });
+    },
+  );
+
+  server.setRequestHandler(ListToolsRequestSchema, async () => {
+    console.error("Received ListToolsRequest");
+    return {
+      tools: listTools(context),
+    };
+  });
+
+  server.setRequestHandler(ListResourcesRequestSchema, async () => ({
+    resources: await listResources(context),
+  }));
+
+  server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => ({
+    resourceTemplates: RESOURCE_TEMPLATES,
+  }));
+
+  server.setRequestHandler(ReadResourceRequestSchema, async (request) =>
+    readResource(request.params.uri, context),
+  );
+
+  if (subscribable) {
+    const subscriptions = new ResourceSubscriptions(context, (uri) =>
+      server.sendResourceUpdated({ uri }),
+    );
+    server.onclose = () => subscriptions.close();
+
+    server.setRequestHandler(SubscribeRequestSchema, async (request) => {
+      await subscriptions.subscribe(request.params.uri);
+      return {};
+    });
+
+    server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+      subscriptions.unsubscribe(request.params.uri);
+      return {};
+    });
+  }
+
+  server.setRequestHandler(ListPromptsRequestSchema, async () => ({
+    prompts: listPrompts(context),
+  }));
+
+  server.setRequestHandler(GetPromptRequestSchema, async (request) =>
+    getPrompt(request.params.name, request.params.arguments, context),
+  );
+
+  return server;
+}
@@ -0,0 +1,839 @@
+// Slack Web API client shared by the stdio server and the Cloudflare Worker
+import {
+  CACHED_METHODS,
+  CachedMethod,
+  SlackCache,
+  cacheScope,
+} from "./cache.js";
+import { mapConcurrent } from "./concurrency.js";
+import { splitList } from "./config.js";
+import { SlackApiError } from "./errors.js";
+import { KeyValueStore } from "./kv.js";
+import { MessageLedger } from "./ledger.js";
+import {
+  DEFAULT_RETRY_POLICY,
+  RateLimiter,
+  RetryPolicy,
+  TimeoutError,
+  backoffDelay,
+  sleep,
+} from "./rate-limit.js";
+
+// Define Slack API response types
+export interface SlackApiResponse {
+  ok: boolean;
+  error?: string;
+}
+
+export interface SlackChannelResponse extends SlackApiResponse {
+  channel?: {
+    is_archived: boolean;
+    [key: string]: any;
+  };
+}
+
+export interface SlackChannelsResponse extends SlackApiResponse {
+  channels: any[];
+  response_metadata: { next_cursor: string };
+}
+
+export interface SlackMessageResponse extends SlackApiResponse {
+  ts?: string;
+  channel?: string;
+}
+
+export interface SlackClientOptions {
+  teamId: string;
+  // Channels to expose instead of listing every public channel
+  channelIds?: string[];
+  // Base URL of the Web API, overridable to point at a local stand-in
+  apiUrl?: string;
+  // Where to cache user, channel and emoji metadata; no caching if unset
+  cache?: KeyValueStore;
+  // Shared pacing of calls; each client gets its own if unset
+  rateLimiter?: RateLimiter;
+  retry?: RetryPolicy;
+  // Where to remember the messages this client posted
+  ledger?: MessageLedger;
+}
+
+// A token, and whether it acts as a Slack user rather than as the bot
+export interface SlackToken {
+  value: string;
+  user: boolean;
+}
+
+// Resolves the token for each call, so a user who signs in mid-session is
+// picked up without rebuilding the client
+export type TokenProvider = () => Promise<SlackToken>;
+
+// A token from configuration, whose kind only its prefix tells: user tokens
+// are xoxp-, or xoxe.xoxp- when token rotation is on
+export function configuredToken(value: string): SlackToken {
+  return { value, user: /^(?:xoxe\.)?xoxp-/.test(value) };
+}
+
+export const DEFAULT_SLACK_API_URL = "https://slack.com/api";
+
+// conversations.info calls in flight at once when listing SLACK_CHANNEL_IDS
+const CHANNEL_INFO_CONCURRENCY = 5;
+
+// Longest a single HTTP request to Slack may take before it is retried
+const REQUEST_TIMEOUT_MS = 15_000;
+
+// Failures where Slack most likely did not act on the request
+const TRANSIENT_ERRORS = new Set([
+  "network_error",
+  "request_timeout",
+  "http_500",
+  "http_502",
+  "http_503",
+  "http_504",
+  "internal_error",
+  "fatal_error",
+  "service_unavailable",
+]);
+
+// Rich content sent alongside (or instead of) a message's text
+export interface MessageOptions {
+  blocks?: any[];
+  attachments?: any[];
+}
+
+// Conversation types as conversations.list names them
+export type ConversationType = "public_channel" | "private_channel" | "mpim" | "im";
+
+export interface ChannelListOptions {
+  // Default public channels only, or every configured channel when
+  // SLACK_CHANNEL_IDS is set
+  types?: ConversationType[];
+  // Only conversations the token's user (or bot) is a member of
+  memberOnly?: boolean;
+}
+
+function conversationType(channel: any): ConversationType {
+  if (channel.is_im) {
+    return "im";
+  }
+  if (channel.is_mpim) {
+    return "mpim";
+  }
+  return channel.is_private ? "private_channel" : "public_channel";
+}
+
+export interface ScheduledMessagesOptions {
+  channel?: string;
+  // Unix timestamps bounding post_at
+  oldest?: string;
+  latest?: string;
+  limit?: number;
+  cursor?: string;
+}
+
+export interface UploadFileOptions {
+  filename: string;
+  content: Uint8Array<ArrayBuffer>;
+  title?: string;
+  // Share to this channel (and thread); the file stays private otherwise
+  channel_id?: string;
+  thread_ts?: string;
+  initial_comment?: string;
+  alt_text?: string;
+  snippet_type?: string;
+}
+
+// Contents of a file hosted by Slack
+export interface DownloadedFile {
+  content: Uint8Array;
+  contentType?: string;
+}
+
+export interface SearchMessagesOptions {
+  sort?: "score" | "timestamp";
+  sort_dir?: "asc" | "desc";
+  count?: number;
+  page?: number;
+}
+
+// Range and paging arguments shared by conversations.history and
+// conversations.replies
+export interface HistoryOptions {
+  // Slack timestamps ("1234567890.123456") bounding the range
+  oldest?: string;
+  latest?: string;
+  inclusive?: boolean;
+  cursor?: string;
+}
+
+// Messages gathered across several pages, with the cursor to continue from
+export interface CollectedMessages {
+  ok: true;
+  messages: any[];
+  has_more: boolean;
+  next_cursor?: string;
+}
+
+export class SlackClient {
+  private token: TokenProvider;
+  private options: SlackClientOptions;
+  private apiUrl: string;
+  private cache?: SlackCache;
+  private rateLimiter: RateLimiter;
+  private retry: RetryPolicy;
+  private signal?: AbortSignal;
+  private onRequest?: (method: string) => void;
+  // Caller the ledger records as the author of messages this client posts
+  private poster?: string;
+
+  constructor(token: string | TokenProvider, options: SlackClientOptions) {
+    this.token = typeof token === "string" ? async () => configuredToken(token) : token;
+    this.options = options;
+    this.apiUrl = options.apiUrl ?? DEFAULT_SLACK_API_URL;
+    this.cache = options.cache ? new SlackCache(options.cache) : undefined;
+    this.rateLimiter = options.rateLimiter ?? new RateLimiter();
+    this.retry = options.retry ?? DEFAULT_RETRY_POLICY;
+  }
+
+  /**
+   * A client sharing this one's token, cache and rate limits whose calls
+   * fail with a `timeout` error once `signal` aborts. Used to bound the
+   * total time of a tool call, waits for rate limits included.
+   * `onRequest` is told about every request sent to Slack, for the audit log.
+   * Messages it posts are recorded in the ledger as posted by `poster`.
+   */
+  withSignal(
+    signal: AbortSignal,
+    onRequest?: (method: string) => void,
+    poster?: string,
+  ): SlackClient {
+    const client = new SlackClient(this.token, {
+      ...this.options,
+      rateLimiter: this.rateLimiter,
+    });
+    client.signal = signal;
+    client.onRequest = onRequest;
+    client.poster = poster;
+    return client;
+  }
+
+  get cacheEnabled(): boolean {
+    return this.cache !== undefined;
+  }
+
+  // Forget cached responses of the given methods (all of them by default)
+  async invalidateCache(methods: CachedMethod[] = CACHED_METHODS): Promise<void> {
+    if (!this.cache) {
+      return;
+    }
+    const scope = await cacheScope(this.options.teamId, await this.token());
+    for (const method of methods) {
+      await this.cache.invalidate(method, scope);
+    }
+  }
+
+  // Channels configured through SLACK_CHANNEL_IDS, if any
+  get channelIds(): string[] | undefined {
+    return this.options.channelIds;
+  }
+
+  // User tokens can call user-only methods such as search.messages
+  async isUserToken(): Promise<boolean> {
+    return (await this.token()).user;
+  }
+
+  private async headers(): Promise<Record<string, string>> {
+    return {
+      Authorization: `Bearer ${(await this.token()).value}`,
+      "Content-Type": "application/json",
+    };
+  }
+
+  private async get<T = any>(
+    method: string,
+    params: URLSearchParams,
+  ): Promise<T> {
+    return this.request<T>(method, `${this.apiUrl}/${method}?${params}`, {
+      headers: await this.headers(),
+    });
+  }
+
+  // GET through the metadata cache, keyed by the request parameters
+  private async cachedGet<T = any>(
+    method: CachedMethod,
+    params: URLSearchParams,
+  ): Promise<T> {
+    if (!this.cache) {
+      return this.get<T>(method, params);
+    }
+    const scope = await cacheScope(this.options.teamId, await this.token());
+    return this.cache.getOrLoad(method, scope, params.toString(), () =>
+      this.get<T>(method, params),
+    );
+  }
+
+  private async post<T = any>(
+    method: string,
+    body: Record<string, unknown>,
+  ): Promise<T> {
+    return this.request<T>(
+      method,
+      `${this.apiUrl}/${method}`,
+      {
+        method: "POST",
+        headers: await this.headers(),
+        body: JSON.stringify(body),
+      },
+      typeof body.channel === "string" ? body.channel : undefined,
+    );
+  }
+
+  /**
+   * Send a request once the rate limiter allows it, retrying after
+   * `ratelimited` answers (honouring Retry-After) and, for reads, after
+   * transient failures. Writes are not retried on transient failures since
+   * Slack may have acted on them already.
+   */
+  private async request<T>(
+    method: string,
+    url: string,
+    init: RequestInit,
+    channel?: string,
+  ): Promise<T> {
+    const retryTransient = (init.method ?? "GET") === "GET";
+    for (let attempt = 0; ; attempt++) {
+      try {
+        await this.rateLimiter.acquire(method, channel, this.signal);
+        this.onRequest?.(method);
+        return await this.send<T>(method, url, init);
+      } catch (error) {
+        if (error instanceof TimeoutError) {
+          throw new SlackApiError(method, "timeout");
+        }
+        if (!(error instanceof SlackApiError) || attempt >= this.retry.maxRetries) {
+          throw error;
+        }
+
+        if (error.code === "ratelimited") {
+          this.rateLimiter.pause(method, channel, error.retryAfter ?? 1);
+        } else if (retryTransient && TRANSIENT_ERRORS.has(error.code)) {
+          try {
+            await sleep(backoffDelay(this.retry, attempt), this.signal);
+          } catch {
+            throw new SlackApiError(method, "timeout");
+          }
+        } else {
+          throw error;
+        }
+        console.error(`Retrying Slack ${method} after ${error.code}`);
+      }
+    }
+  }
+
+  // Turn network failures, `ok: false` bodies and unreadable responses into
+  // SlackApiErrors
+  private async send<T>(
+    method: string,
+    url: string,
+    init: RequestInit,
+  ): Promise<T> {
+    const timeout = AbortSignal.timeout(REQUEST_TIMEOUT_MS);
+    let response: Response;
+    try {
+      response = await fetch(url, {
+        ...init,
+        signal: this.signal ? AbortSignal.any([this.signal, timeout]) : timeout,
+      });
+    } catch (error) {
+      if (this.signal?.aborted) {
+        throw new TimeoutError();
+      }
+      if (timeout.aborted) {
+        throw new SlackApiError(method, "request_timeout");
+      }
+      console.error(`Request to Slack ${method} failed:`, error);
+      throw new SlackApiError(method, "network_error");
+    }
+
+    const retryAfter = response.headers.get("Retry-After");
+    const details = {
+      retryAfter: retryAfter ? Number(retryAfter) : undefined,
+    };
+
+    let data: SlackApiResponse & { needed?: string };
+    try {
+      data = (await response.json()) as SlackApiResponse;
+    } catch {
+      throw new SlackApiError(
+        method,
+        response.status === 429 ? "ratelimited" : `http_${response.status}`,
+        details,
+      );
+    }
+
+    if (!data.ok) {
+      throw new SlackApiError(method, data.error ?? "unknown_error", {
+        ...details,
+        needed: data.needed,
+      });
+    }
+    return data as T;
+  }
+
+  async getChannels(
+    limit: number = 100,
+    cursor?: string,
+    options: ChannelListOptions = {},
+  ): Promise<SlackChannelsResponse> {
+    const types = options.types ?? ["public_channel"];
+    const predefinedChannelIds = this.options.channelIds;
+    if (!predefinedChannelIds || predefinedChannelIds.length === 0) {
+      const params = new URLSearchParams({
+        types: types.join(","),
+        exclude_archived: "true",
+        limit: Math.min(limit, 200).toString(),
+        team_id: this.options.teamId,
+      });
+
+      if (cursor) {
+        params.append("cursor", cursor);
+      }
+
+      // users.conversations lists only what the token is a member of
+      return this.get<SlackChannelsResponse>(
+        options.memberOnly ? "users.conversations" : "conversations.list",
+        params,
+      );
+    }
+
+    const responses = await mapConcurrent(
+      predefinedChannelIds,
+      CHANNEL_INFO_CONCURRENCY,
+      async (channelId) => {
+        try {
+          return await this.getChannelInfo(channelId);
+        } catch (error) {
+          // Skip configured channels the token can no longer see
+          if (error instanceof SlackApiError && error.code !== "ratelimited") {
+            return undefined;
+          }
+          throw error;
+        }
+      },
+    );
+
+    const channels = responses
+      .map((data) => data?.channel)
+      .filter(
+        (channel) =>
+          channel &&
+          !channel.is_archived &&
+          (!options.types || options.types.includes(conversationType(channel))) &&
+          (!options.memberOnly || channel.is_member || channel.is_im),
+      );
+
+    return {
+      ok: true,
+      channels: channels,
+      response_metadata: { next_cursor: "" },
+    };
+  }
+
+  async getChannelInfo(channel_id: string): Promise<SlackChannelResponse> {
+    const params = new URLSearchParams({
+      channel: channel_id,
+    });
+
+    return this.cachedGet<SlackChannelResponse>("conversations.info", params);
+  }
+
+  async postMessage(
+    channel_id: string,
+    text: string | undefined,
+    options: MessageOptions = {},
+  ): Promise<SlackMessageResponse> {
+    const response = await this.post<SlackMessageResponse>("chat.postMessage", {
+      channel: channel_id,
+      text: text,
+      blocks: options.blocks,
+      attachments: options.attachments,
+    });
+    await this.recordPosted(response);
+    return response;
+  }
+
+  async postReply(
+    channel_id: string,
+    thread_ts: string,
+    text: string | undefined,
+    options: MessageOptions = {},
+  ): Promise<SlackMessageResponse> {
+    const response = await this.post<SlackMessageResponse>("chat.postMessage", {
+      channel: channel_id,
+      thread_ts: thread_ts,
+      text: text,
+      blocks: options.blocks,
+      attachments: options.attachments,
+    });
+    await this.recordPosted(response);
+    return response;
+  }
+
+  async updateMessage(
+    channel_id: string,
+    ts: string,
+    text: string | undefined,
+    options: MessageOptions = {},
+  ): Promise<SlackMessageResponse> {
+    return this.post<SlackMessageResponse>("chat.update", {
+      channel: channel_id,
+      ts: ts,
+      text: text,
+      blocks: options.blocks,
+      attachments: options.attachments,
+    });
+  }
+
+  async deleteMessage(
+    channel_id: string,
+    ts: string,
+  ): Promise<SlackMessageResponse> {
+    const response = await this.post<SlackMessageResponse>("chat.delete", {
+      channel: channel_id,
+      ts: ts,
+    });
+    try {
+      await this.options.ledger?.forget(channel_id, ts);
+    } catch (error) {
+      console.error("Could not update the message ledger:", error);
+    }
+    return response;
+  }
+
+  async scheduleMessage(
+    channel_id: string,
+    post_at: number,
+    text: string | undefined,
+    options: MessageOptions & { thread_ts?: string } = {},
+  ): Promise<any> {
+    return this.post("chat.scheduleMessage", {
+      channel: channel_id,
+      post_at: Math.floor(post_at),
+      text: text,
+      thread_ts: options.thread_ts,
+      blocks: options.blocks,
+      attachments: options.attachments,
+    });
+  }
+
+  async listScheduledMessages(options: ScheduledMessagesOptions = {}): Promise<any> {
+    return this.post("chat.scheduledMessages.list", {
+      channel: options.channel,
+      oldest: options.oldest,
+      latest: options.latest,
+      limit: options.limit,
+      cursor: options.cursor,
+      team_id: this.options.teamId,
+    });
+  }
+
+  async deleteScheduledMessage(
+    channel_id: string,
+    scheduled_message_id: string,
+  ): Promise<SlackApiResponse> {
+    return this.post<SlackApiResponse>("chat.deleteScheduledMessage", {
+      channel: channel_id,
+      scheduled_message_id: scheduled_message_id,
+    });
+  }
+
+  // Open (or find) the DM with one user, or the group DM with several;
+  // needs the im:write or mpim:write scope
+  async openConversation(user_ids: string[]): Promise<SlackChannelResponse & { already_open?: boolean }> {
+    return this.post("conversations.open", {
+      users: user_ids.join(","),
+      return_im: true,
+    });
+  }
+
+  // WebSocket URL for a Socket Mode connection; needs an app-level xapp- token
+  async openSocketConnection(): Promise<{ url: string }> {
+    return this.post<SlackApiResponse & { url: string }>("apps.connections.open", {});
+  }
+
+  /**
+   * Upload a file with Slack's external upload flow: ask for an upload URL,
+   * send the bytes there, then complete the upload to share the file.
+   */
+  async uploadFile(options: UploadFileOptions): Promise<any> {
+    const params = new URLSearchParams({
+      filename: options.filename,
+      length: options.content.length.toString(),
+    });
+    if (options.alt_text) {
+      params.append("alt_txt", options.alt_text);
+    }
+    if (options.snippet_type) {
+      params.append("snippet_type", options.snippet_type);
+    }
+    const { upload_url, file_id } = await this.get<{
+      upload_url: string;
+      file_id: string;
+    }>("files.getUploadURLExternal", params);
+
+    await this.transfer("files.getUploadURLExternal", upload_url, {
+      method: "POST",
+      body: options.content,
+    });
+
+    return this.post("files.completeUploadExternal", {
+      files: [{ id: file_id, title: options.title ?? options.filename }],
+      channel_id: options.channel_id,
+      thread_ts: options.thread_ts,
+      initial_comment: options.initial_comment,
+    });
+  }
+
+  async getFileInfo(file_id: string): Promise<any> {
+    const params = new URLSearchParams({
+      file: file_id,
+    });
+
+    return this.get("files.info", params);
+  }
+
+  // Fetch a url_private or url_private_download link with this token
+  async downloadFile(url: string): Promise<DownloadedFile> {
+    const response = await this.transfer("files.info", url, {
+      headers: { Authorization: `Bearer ${(await this.token()).value}` },
+    });
+    return {
+      content: new Uint8Array(await response.arrayBuffer()),
+      contentType: response.headers.get("Content-Type") ?? undefined,
+    };
+  }
+
+  // Plain HTTP transfer outside the Web API, e.g. file contents
+  private async transfer(
+    method: string,
+    url: string,
+    init: RequestInit,
+  ): Promise<Response> {
+    const timeout = AbortSignal.timeout(REQUEST_TIMEOUT_MS);
+    this.onRequest?.(method);
+    let response: Response;
+    try {
+      response = await fetch(url, {
+        ...init,
+        signal: this.signal ? AbortSignal.any([this.signal, timeout]) : timeout,
+      });
+    } catch (error) {
+      if (this.signal?.aborted) {
+        throw new SlackApiError(method, "timeout");
+      }
+      console.error(`Transfer for Slack ${method} failed:`, error);
+      throw new SlackApiError(method, timeout.aborted ? "request_timeout" : "network_error");
+    }
+    if (!response.ok) {
+      throw new SlackApiError(method, `http_${response.status}`);
+    }
+    return response;
+  }
+
+  // Who posted the message through this server, according to the ledger:
+  // undefined when the server did not post it, "" when no caller was known
+  async messagePoster(channel_id: string, ts: string): Promise<string | undefined> {
+    return this.options.ledger?.poster(channel_id, ts);
+  }
+
+  // A ledger failure must not make a message that was sent look unsent
+  private async recordPosted(response: SlackMessageResponse) {
+    if (!response.channel || !response.ts) {
+      return;
+    }
+    try {
+      await this.options.ledger?.record(response.channel, response.ts, this.poster);
+    } catch (error) {
+      console.error("Could not update the message ledger:", error);
+    }
+  }
+
+  async addReaction(
+    channel_id: string,
+    timestamp: string,
+    reaction: string,
+  ): Promise<SlackApiResponse> {
+    return this.post<SlackApiResponse>("reactions.add", {
+      channel: channel_id,
+      timestamp: timestamp,
+      name: reaction,
+    });
+  }
+
+  async getChannelHistory(
+    channel_id: string,
+    limit: number = 10,
+    options: HistoryOptions = {},
+  ): Promise<any> {
+    const params = new URLSearchParams({
+      channel: channel_id,
+      limit: limit.toString(),
+    });
+    appendHistoryOptions(params, options);
+
+    return this.get("conversations.history", params);
+  }
+
+  async getThreadReplies(
+    channel_id: string,
+    thread_ts: string,
+    limit?: number,
+    options: HistoryOptions = {},
+  ): Promise<any> {
+    const params = new URLSearchParams({
+      channel: channel_id,
+      ts: thread_ts,
+    });
+    if (limit !== undefined) {
+      params.append("limit", limit.toString());
+    }
+    appendHistoryOptions(params, options);
+
+    return this.get("conversations.replies", params);
+  }
+
+  // Follow a channel's history across pages, newest first
+  async getAllChannelHistory(
+    channel_id: string,
+    maxMessages: number,
+    options: HistoryOptions = {},
+  ): Promise<CollectedMessages> {
+    return this.collectMessages(
+      "conversations.history",
+      { channel: channel_id },
+      maxMessages,
+      options,
+    );
+  }
+
+  // Follow a thread's replies across pages, oldest first
+  async getAllThreadReplies(
+    channel_id: string,
+    thread_ts: string,
+    maxMessages: number,
+    options: HistoryOptions = {},
+  ): Promise<CollectedMessages> {
+    return this.collectMessages(
+      "conversations.replies",
+      { channel: channel_id, ts: thread_ts },
+      maxMessages,
+      options,
+    );
+  }
+
+  /**
+   * Request pages until `maxMessages` have been collected or there are no
+   * more. Page sizes shrink near the cap, so the returned cursor resumes
+   * exactly after the last message returned.
+   */
+  private async collectMessages(
+    method: string,
+    base: Record<string, string>,
+    maxMessages: number,
+    options: HistoryOptions,
+  ): Promise<CollectedMessages> {
+    const messages: any[] = [];
+    let cursor = options.cursor;
+
+    do {
+      const params = new URLSearchParams({
+        ...base,
+        limit: Math.min(maxMessages - messages.length, 200).toString(),
+      });
+      appendHistoryOptions(params, { ...options, cursor });
+
+      const data = await this.get(method, params);
+      messages.push(...(data.messages ?? []));
+      cursor = data.response_metadata?.next_cursor || undefined;
+    } while (cursor && messages.length < maxMessages);
+
+    return {
+      ok: true,
+      messages,
+      has_more: cursor !== undefined,
+      next_cursor: cursor,
+    };
+  }
+
+  async getUsers(limit: number = 100, cursor?: string): Promise<any> {
+    const params = new URLSearchParams({
+      limit: Math.min(limit, 200).toString(),
+      team_id: this.options.teamId,
+    });
+
+    if (cursor) {
+      params.append("cursor", cursor);
+    }
+
+    return this.cachedGet("users.list", params);
+  }
+
+  async getUserInfo(user_id: string): Promise<any> {
+    const params = new URLSearchParams({
+      user: user_id,
+    });
+
+    return this.cachedGet("users.info", params);
+  }
+
+  async getUserProfile(user_id: string): Promise<any> {
+    const params = new URLSearchParams({
+      user: user_id,
+      include_labels: "true",
+    });
+
+    return this.cachedGet("users.profile.get", params);
+  }
+
+  async getEmoji(): Promise<any> {
+    return this.cachedGet("emoji.list", new URLSearchParams());
+  }
+
+  async searchMessages(
+    query: string,
+    options: SearchMessagesOptions = {},
+  ): Promise<any> {
+    const params = new URLSearchParams({
+      query,
+      sort: options.sort ?? "score",
+      sort_dir: options.sort_dir ?? "desc",
+      count: Math.min(options.count ?? 20, 100).toString(),
+      page: (options.page ?? 1).toString(),
+      highlight: "false",
+    });
+
+    return this.get("search.messages", params);
+  }
+}
+
+function appendHistoryOptions(
+  params: URLSearchParams,
+  options: HistoryOptions,
+) {
+  if (options.oldest) {
+    params.append("oldest", options.oldest);
+  }
+  if (options.latest) {
+    params.append("latest", options.latest);
+  }
+  if (options.inclusive !== undefined) {
+    params.append("inclusive", options.inclusive.toString());
+  }
+  if (options.cursor) {
+    params.append("cursor", options.cursor);
+  }
+}
+
+// Parse the comma-separated SLACK_CHANNEL_IDS value
+export function parseChannelIds(value?: string): string[] | undefined {
+  return splitList(value);
+}
@@ -0,0 +1,254 @@
+// Slack Events API receiver for the Worker: verifies request signatures,
+// answers the url_verification handshake and stores events in a Durable
+// Object, which the event tools read from.
+import { EventLog, EventPage, EventQuery, EventSource, normalizeEvent } from "./events.js";
+
+export const SLACK_EVENTS_PATH = "/slack/events";
+
+// Requests signed longer ago than this are treated as replays
+const SIGNATURE_MAX_AGE_SECONDS = 5 * 60;
+
+const encoder = new TextEncoder();
+
+export interface SlackEventsEnv {
+  // Signing secret from the Slack app's Basic Information page
+  SLACK_SIGNING_SECRET?: string;
+  // Durable Object namespace of SlackEventBuffer
+  SLACK_EVENTS?: DurableObjectNamespaceLike;
+}
+
+// The parts of the Durable Object runtime used here, typed locally like the
+// KV bindings in kv.ts
+export interface DurableObjectNamespaceLike {
+  idFromName(name: string): unknown;
+  get(id: unknown): { fetch(input: string, init?: RequestInit): Promise<Response> };
+}
+
+interface DurableObjectStateLike {
+  storage: {
+    get<T>(key: string): Promise<T | undefined>;
+    put(key: string, value: unknown): Promise<void>;
+  };
+  blockConcurrencyWhile<T>(callback: () => Promise<T>): Promise<T>;
+}
+
+function toHex(bytes: ArrayBuffer): string {
+  return [...new Uint8Array(bytes)]
+    .map((byte) => byte.toString(16).padStart(2, "0"))
+    .join("");
+}
+
+// Compare without returning early, so timing says nothing about the match
+function timingSafeEqual(a: string, b: string): boolean {
+  if (a.length !== b.length) {
+    return false;
+  }
+  let difference = 0;
+  for (let i = 0; i < a.length; i++) {
+    difference |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  }
+  return difference === 0;
+}
+
+/**
+ * Check X-Slack-Signature: an HMAC-SHA256 of "v0:<timestamp>:<body>" keyed
+ * with the signing secret. Requests whose X-Slack-Request-Timestamp is more
+ * than five minutes off are rejected as possible replays.
+ */
+export async function verifySlackSignature(
+  signingSecret: string,
+  headers: Headers,
+  body: string,
+  now: number = Date.now(),
+): Promise<boolean> {
+  const timestamp = headers.get("X-Slack-Request-Timestamp");
+  const signature = headers.get("X-Slack-Signature");
+  if (!timestamp || !signature || !/^\d+$/.test(timestamp)) {
+    return false;
+  }
+  if (Math.abs(now / 1000 - Number(timestamp)) > SIGNATURE_MAX_AGE_SECONDS) {
+    return false;
+  }
+
+  const key = await crypto.subtle.importKey(
+    "raw",
+    encoder.encode(signingSecret),
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["sign"],
+  );
+  const digest = await crypto.subtle.sign(
+    "HMAC",
+    key,
+    encoder.encode(`v0:${timestamp}:${body}`),
+  );
+  return timingSafeEqual(`v0=${toHex(digest)}`, signature);
+}
+
+/**
+ * Handle a request to the events route. Slack retries deliveries that are
+ * not acknowledged within three seconds, so events are stored and answered
+ * at once; redeliveries are dropped by the buffer.
+ */
+export async function handleSlackEvents(
+  request: Request,
+  env: SlackEventsEnv,
+  teamId: string | undefined,
+): Promise<Response> {
+  if (request.method !== "POST") {
+    return new Response("Method not allowed", { status: 405, headers: { Allow: "POST" } });
+  }
+  if (!env.SLACK_SIGNING_SECRET || !env.SLACK_EVENTS || !teamId) {
+    console.error("Slack events received, but SLACK_SIGNING_SECRET, SLACK_EVENTS or SLACK_TEAM_ID is not set");
+    return new Response("Slack events are not configured", { status: 404 });
+  }
+
+  const body = await request.text();
+  if (!(await verifySlackSignature(env.SLACK_SIGNING_SECRET, request.headers, body))) {
+    return new Response("Invalid signature", { status: 401 });
+  }
+
+  let payload: any;
+  try {
+    payload = JSON.parse(body);
+  } catch {
+    return new Response("Invalid JSON", { status: 400 });
+  }
+
+  if (payload.type === "url_verification") {
+    return new Response(JSON.stringify({ challenge: payload.challenge }), {
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+  if (payload.type !== "event_callback") {
+    return new Response(null, { status: 200 });
+  }
+  // Events of other workspaces the app is installed in are not ours to keep
+  if (payload.team_id && payload.team_id !== teamId) {
+    return new Response(null, { status: 200 });
+  }
+
+  const event = normalizeEvent(payload);
+  if (event) {
+    await eventBufferStub(env.SLACK_EVENTS, teamId).fetch("https://events/append", {
+      method: "POST",
+      body: JSON.stringify(event),
+    });
+  }
+  return new Response(null, { status: 200 });
+}
+
+function eventBufferStub(namespace: DurableObjectNamespaceLike, teamId: string) {
+  return namespace.get(namespace.idFromName(teamId));
+}
+
+function queryParams(query: EventQuery): URLSearchParams {
+  const params = new URLSearchParams();
+  if (query.after !== undefined) {
+    params.set("after", query.after);
+  }
+  if (query.types?.length) {
+    params.set("types", query.types.join(","));
+  }
+  if (query.channel_id) {
+    params.set("channel_id", query.channel_id);
+  }
+  if (query.scope?.only) {
+    params.set("only_channels", query.scope.only.join(","));
+  } else if (query.scope) {
+    params.set("except_channels", query.scope.except.join(","));
+  }
+  if (query.limit !== undefined) {
+    params.set("limit", query.limit.toString());
+  }
+  return params;
+}
+
+function channelList(value: string | null): string[] {
+  return value ? value.split(",") : [];
+}
+
+function parseQuery(params: URLSearchParams): EventQuery {
+  return {
+    after: params.get("after") ?? undefined,
+    types: (params.get("types")?.split(",") as EventQuery["types"]) ?? undefined,
+    channel_id: params.get("channel_id") ?? undefined,
+    scope: params.has("only_channels")
+      ? { only: channelList(params.get("only_channels")) }
+      : params.has("except_channels")
+        ? { except: channelList(params.get("except_channels")) }
+        : undefined,
+    limit: params.has("limit") ? Number(params.get("limit")) : undefined,
+  };
+}
+
+/**
+ * Durable Object holding the event buffer of one workspace. A single
+ * instance sees every append and every waiting reader, so long-polls wake up
+ * as soon as an event arrives; the buffer is persisted on each append.
+ */
+export class SlackEventBuffer {
+  private state: DurableObjectStateLike;
+  private log = new EventLog();
+
+  constructor(state: DurableObjectStateLike) {
+    this.state = state;
+    state.blockConcurrencyWhile(async () => {
+      const saved = await state.storage.get<ReturnType<EventLog["toJSON"]>>("events");
+      if (saved) {
+        this.log = new EventLog(saved);
+      }
+    });
+  }
+
+  async fetch(request: Request): Promise<Response> {
+    const url = new URL(request.url);
+    switch (url.pathname) {
+      case "/append": {
+        if (this.log.append(await request.json())) {
+          await this.state.storage.put("events", this.log.toJSON());
+        }
+        return new Response(null, { status: 204 });
+      }
+      case "/recent":
+        return Response.json(await this.log.recent(parseQuery(url.searchParams)));
+      case "/wait": {
+        const timeoutMs = Number(url.searchParams.get("timeout_ms") ?? 0);
+        return Response.json(
+          await this.log.wait(parseQuery(url.searchParams), timeoutMs, request.signal),
+        );
+      }
+      default:
+        return new Response("Not found", { status: 404 });
+    }
+  }
+}
+
+// EventSource backed by the workspace's SlackEventBuffer
+export class DurableEventSource implements EventSource {
+  private namespace: DurableObjectNamespaceLike;
+  private teamId: string;
+
+  constructor(namespace: DurableObjectNamespaceLike, teamId: string) {
+    this.namespace = namespace;
+    this.teamId = teamId;
+  }
+
+  async recent(query: EventQuery): Promise<EventPage> {
+    return this.request(`https://events/recent?${queryParams(query)}`);
+  }
+
+  async wait(query: EventQuery, timeoutMs: number, signal?: AbortSignal): Promise<EventPage> {
+    const params = queryParams(query);
+    params.set("timeout_ms", timeoutMs.toString());
+    return this.request(`https://events/wait?${params}`, signal);
+  }
+
+  private async request(url: string, signal?: AbortSignal): Promise<EventPage> {
+    const response = await eventBufferStub(this.namespace, this.teamId).fetch(url, { signal });
+    if (!response.ok) {
+      throw new Error(`Event buffer answered ${response.status}`);
+    }
+    return response.json();
+  }
+}
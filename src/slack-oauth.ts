@@ -0,0 +1,511 @@
+// "Sign in with Slack": lets each MCP caller link their own Slack user token
+// so tools act as that person instead of the bot.
+import { splitList } from "./config.js";
+import { base64UrlDecode, base64UrlEncode } from "./encoding.js";
+import { KeyValueStore } from "./kv.js";
+import { DEFAULT_SLACK_API_URL, TokenProvider, configuredToken } from "./slack-client.js";
+
+export const SLACK_OAUTH_START_PATH = "/oauth/slack/start";
+export const SLACK_OAUTH_CALLBACK_PATH = "/oauth/slack/callback";
+
+const DEFAULT_AUTHORIZE_URL = "https://slack.com/oauth/v2/authorize";
+const DEFAULT_USER_SCOPES = [
+  "channels:history",
+  "channels:read",
+  "chat:write",
+  "files:read",
+  "files:write",
+  "reactions:write",
+  "search:read",
+  "users:read",
+  "users.profile:read",
+];
+
+// Sign-in links stay valid for this long
+const STATE_TTL_SECONDS = 10 * 60;
+// Ties the callback to the browser that opened the sign-in link
+const SIGN_IN_COOKIE = "slack_sign_in";
+// Once a link is opened, the sign-in at Slack must finish within this time
+const SIGN_IN_COOKIE_TTL_SECONDS = 5 * 60;
+// Refresh rotating tokens this long before they expire
+const REFRESH_MARGIN_SECONDS = 5 * 60;
+
+export interface StoredUserToken {
+  access_token: string;
+  user_id: string;
+  team_id: string;
+  scope: string;
+  refresh_token?: string;
+  // Unix seconds; only set when token rotation is enabled on the app
+  expires_at?: number;
+}
+
+// What the sign-in tools see of the flow for the current caller
+export interface AccountLink {
+  signInUrl(): Promise<string>;
+  currentUser(): Promise<StoredUserToken | undefined>;
+  signOut(): Promise<void>;
+}
+
+export interface SlackOAuthEnv {
+  SLACK_TEAM_ID?: string;
+  SLACK_CLIENT_ID?: string;
+  SLACK_CLIENT_SECRET?: string;
+  SLACK_TOKEN_ENCRYPTION_KEY?: string;
+  SLACK_USER_SCOPES?: string;
+  SLACK_API_URL?: string;
+  SLACK_OAUTH_AUTHORIZE_URL?: string;
+}
+
+export interface SlackOAuthConfig {
+  clientId: string;
+  clientSecret: string;
+  // Base64 encoding of a 32-byte AES key
+  encryptionKey: string;
+  userScopes: string[];
+  apiUrl: string;
+  authorizeUrl: string;
+  // Workspace whose tokens are accepted; tokens for any other are refused
+  teamId?: string;
+}
+
+/**
+ * Read Slack OAuth settings, or undefined when per-user sign-in is not set up.
+ */
+export function loadSlackOAuthConfig(
+  env: SlackOAuthEnv,
+): SlackOAuthConfig | undefined {
+  if (!env.SLACK_CLIENT_ID || !env.SLACK_CLIENT_SECRET) {
+    return undefined;
+  }
+  if (!env.SLACK_TOKEN_ENCRYPTION_KEY) {
+    throw new Error(
+      "SLACK_TOKEN_ENCRYPTION_KEY is required when SLACK_CLIENT_ID is set",
+    );
+  }
+  return {
+    clientId: env.SLACK_CLIENT_ID,
+    clientSecret: env.SLACK_CLIENT_SECRET,
+    encryptionKey: env.SLACK_TOKEN_ENCRYPTION_KEY,
+    userScopes: splitList(env.SLACK_USER_SCOPES) ?? DEFAULT_USER_SCOPES,
+    apiUrl: env.SLACK_API_URL ?? DEFAULT_SLACK_API_URL,
+    authorizeUrl: env.SLACK_OAUTH_AUTHORIZE_URL ?? DEFAULT_AUTHORIZE_URL,
+    teamId: env.SLACK_TEAM_ID,
+  };
+}
+
+/**
+ * User tokens encrypted at rest with AES-GCM. The record key is bound in as
+ * associated data, so a ciphertext copied to another principal's slot fails
+ * to decrypt.
+ */
+export class UserTokenStore {
+  private store: KeyValueStore;
+  private key: Promise<CryptoKey>;
+
+  constructor(store: KeyValueStore, encryptionKey: string) {
+    this.store = store;
+    const raw = base64UrlDecode(encryptionKey);
+    if (raw.length !== 32) {
+      throw new Error("SLACK_TOKEN_ENCRYPTION_KEY must encode exactly 32 bytes");
+    }
+    this.key = crypto.subtle.importKey("raw", raw, "AES-GCM", false, [
+      "encrypt",
+      "decrypt",
+    ]);
+  }
+
+  private recordKey(principalId: string): string {
+    return `user-token:${principalId}`;
+  }
+
+  async get(principalId: string): Promise<StoredUserToken | undefined> {
+    const recordKey = this.recordKey(principalId);
+    const stored = await this.store.get(recordKey);
+    if (!stored) {
+      return undefined;
+    }
+
+    const [iv, ciphertext] = stored.split(".");
+    try {
+      const plaintext = await crypto.subtle.decrypt(
+        {
+          name: "AES-GCM",
+          iv: base64UrlDecode(iv),
+          additionalData: new TextEncoder().encode(recordKey),
+        },
+        await this.key,
+        base64UrlDecode(ciphertext),
+      );
+      return JSON.parse(new TextDecoder().decode(plaintext));
+    } catch (error) {
+      console.error("Discarding unreadable user token:", error);
+      return undefined;
+    }
+  }
+
+  async put(principalId: string, token: StoredUserToken): Promise<void> {
+    const recordKey = this.recordKey(principalId);
+    const iv = crypto.getRandomValues(new Uint8Array(12));
+    const ciphertext = await crypto.subtle.encrypt(
+      {
+        name: "AES-GCM",
+        iv,
+        additionalData: new TextEncoder().encode(recordKey),
+      },
+      await this.key,
+      new TextEncoder().encode(JSON.stringify(token)),
+    );
+    await this.store.put(
+      recordKey,
+      `${base64UrlEncode(iv)}.${base64UrlEncode(new Uint8Array(ciphertext))}`,
+    );
+  }
+
+  async delete(principalId: string): Promise<void> {
+    await this.store.delete(this.recordKey(principalId));
+  }
+}
+
+interface OAuthAccessResponse {
+  ok: boolean;
+  error?: string;
+  team?: { id: string };
+  authed_user?: {
+    id: string;
+    scope: string;
+    access_token: string;
+    refresh_token?: string;
+    expires_in?: number;
+  };
+}
+
+interface SignInState {
+  principal: string;
+  expires: number;
+  // Identifies the sign-in link, which can be opened only once
+  link: string;
+  // Set once the link is opened, and matched against the browser's cookie
+  // when Slack redirects back
+  nonce?: string;
+}
+
+function readCookie(request: Request, name: string): string | undefined {
+  for (const cookie of (request.headers.get("Cookie") ?? "").split(";")) {
+    const [key, ...value] = cookie.trim().split("=");
+    if (key === name) {
+      return value.join("=");
+    }
+  }
+  return undefined;
+}
+
+function signInCookie(value: string, maxAge: number): string {
+  return `${SIGN_IN_COOKIE}=${value}; Path=/oauth/slack; Max-Age=${maxAge}; HttpOnly; Secure; SameSite=Lax`;
+}
+
+function randomId(): string {
+  return base64UrlEncode(crypto.getRandomValues(new Uint8Array(16)));
+}
+
+function htmlPage(title: string, message: string, status = 200): Response {
+  const escape = (value: string) =>
+    value.replace(/[&<>"]/g, (char) => `&#${char.charCodeAt(0)};`);
+  return new Response(
+    `<!doctype html><html><head><title>${escape(title)}</title></head><body><h1>${escape(title)}</h1><p>${escape(message)}</p></body></html>`,
+    { status, headers: { "Content-Type": "text/html; charset=utf-8" } },
+  );
+}
+
+/**
+ * The Slack OAuth v2 flow for user tokens. Sign-in links carry a signed,
+ * short-lived state naming the MCP principal, so the callback knows whom the
+ * resulting token belongs to without the browser holding any MCP credential.
+ * A link can be opened once. Opening it sets a short-lived cookie whose
+ * nonce is signed into the state sent to Slack, so the flow can only finish
+ * in the browser that started it, and only once.
+ */
+export class SlackOAuth {
+  private config: SlackOAuthConfig;
+  readonly tokens: UserTokenStore;
+  // Sign-in links and nonces that were already used
+  private used: KeyValueStore;
+  private hmacKey: Promise<CryptoKey>;
+
+  constructor(config: SlackOAuthConfig, store: KeyValueStore) {
+    this.config = config;
+    this.used = store;
+    this.tokens = new UserTokenStore(store, config.encryptionKey);
+    this.hmacKey = crypto.subtle.importKey(
+      "raw",
+      new TextEncoder().encode(config.clientSecret),
+      { name: "HMAC", hash: "SHA-256" },
+      false,
+      ["sign", "verify"],
+    );
+  }
+
+  async signInUrl(principalId: string, origin: string): Promise<string> {
+    const state = await this.signState({
+      principal: principalId,
+      expires: Math.floor(Date.now() / 1000) + STATE_TTL_SECONDS,
+      link: randomId(),
+    });
+    const url = new URL(SLACK_OAUTH_START_PATH, origin);
+    url.searchParams.set("state", state);
+    return url.toString();
+  }
+
+  accountLink(principalId: string, origin: string): AccountLink {
+    return {
+      signInUrl: () => this.signInUrl(principalId, origin),
+      currentUser: () => this.currentToken(principalId),
+      signOut: () => this.tokens.delete(principalId),
+    };
+  }
+
+  /**
+   * Token provider for SlackClient: the principal's own token when they have
+   * signed in, otherwise the bot token.
+   */
+  tokenProvider(principalId: string, botToken: string): TokenProvider {
+    return async () => {
+      const token = await this.currentToken(principalId);
+      return token ? { value: token.access_token, user: true } : configuredToken(botToken);
+    };
+  }
+
+  async currentToken(principalId: string): Promise<StoredUserToken | undefined> {
+    const token = await this.tokens.get(principalId);
+    if (!token?.expires_at) {
+      return token;
+    }
+    if (token.expires_at - REFRESH_MARGIN_SECONDS > Date.now() / 1000) {
+      return token;
+    }
+    if (!token.refresh_token) {
+      await this.tokens.delete(principalId);
+      return undefined;
+    }
+
+    const refreshed = await this.exchange({
+      grant_type: "refresh_token",
+      refresh_token: token.refresh_token,
+    });
+    if (!refreshed) {
+      await this.tokens.delete(principalId);
+      return undefined;
+    }
+    await this.tokens.put(principalId, refreshed);
+    return refreshed;
+  }
+
+  /**
+   * Serve the start and callback routes. Returns undefined for other paths.
+   */
+  async handleRequest(request: Request): Promise<Response | undefined> {
+    const url = new URL(request.url);
+    if (url.pathname === SLACK_OAUTH_START_PATH) {
+      return this.handleStart(url);
+    }
+    if (url.pathname === SLACK_OAUTH_CALLBACK_PATH) {
+      return this.handleCallback(request, url);
+    }
+    return undefined;
+  }
+
+  private async handleStart(url: URL): Promise<Response> {
+    const state = url.searchParams.get("state");
+    const signIn = state ? await this.verifyState(state) : undefined;
+    if (!signIn || signIn.nonce || !(await this.useOnce(`sign-in-link:${signIn.link}`))) {
+      return htmlPage(
+        "Sign-in link expired",
+        "Ask the assistant for a new Slack sign-in link.",
+        400,
+      );
+    }
+    const nonce = randomId();
+    const expires = Math.min(signIn.expires, Math.floor(Date.now() / 1000) + SIGN_IN_COOKIE_TTL_SECONDS);
+
+    const authorize = new URL(this.config.authorizeUrl);
+    authorize.searchParams.set("client_id", this.config.clientId);
+    authorize.searchParams.set("user_scope", this.config.userScopes.join(","));
+    authorize.searchParams.set(
+      "redirect_uri",
+      new URL(SLACK_OAUTH_CALLBACK_PATH, url).toString(),
+    );
+    if (this.config.teamId) {
+      authorize.searchParams.set("team", this.config.teamId);
+    }
+    authorize.searchParams.set("state", await this.signState({ ...signIn, expires, nonce }));
+    return new Response(null, {
+      status: 302,
+      headers: {
+        Location: authorize.toString(),
+        "Set-Cookie": signInCookie(nonce, SIGN_IN_COOKIE_TTL_SECONDS),
+      },
+    });
+  }
+
+  // The callback page, with the sign-in cookie cleared whatever the outcome
+  private async handleCallback(request: Request, url: URL): Promise<Response> {
+    const page = await this.finishSignIn(request, url);
+    page.headers.append("Set-Cookie", signInCookie("", 0));
+    return page;
+  }
+
+  private async finishSignIn(request: Request, url: URL): Promise<Response> {
+    const error = url.searchParams.get("error");
+    if (error) {
+      return htmlPage("Slack sign-in cancelled", `Slack reported: ${error}`, 400);
+    }
+
+    const state = url.searchParams.get("state");
+    const code = url.searchParams.get("code");
+    const signIn = state ? await this.verifyState(state) : undefined;
+    if (!signIn || !code) {
+      return htmlPage(
+        "Sign-in link expired",
+        "Ask the assistant for a new Slack sign-in link.",
+        400,
+      );
+    }
+    if (!signIn.nonce || readCookie(request, SIGN_IN_COOKIE) !== signIn.nonce) {
+      return htmlPage(
+        "Sign-in not started here",
+        "Open the sign-in link from the assistant in this browser and sign in from there.",
+        400,
+      );
+    }
+    if (!(await this.useOnce(`sign-in-nonce:${signIn.nonce}`))) {
+      return htmlPage(
+        "Sign-in link expired",
+        "Ask the assistant for a new Slack sign-in link.",
+        400,
+      );
+    }
+
+    const token = await this.exchange({
+      code,
+      redirect_uri: new URL(SLACK_OAUTH_CALLBACK_PATH, url).toString(),
+    });
+    if (!token) {
+      return htmlPage(
+        "Slack sign-in failed",
+        "Slack did not issue a user token. Try signing in again.",
+        502,
+      );
+    }
+
+    if (this.config.teamId && token.team_id !== this.config.teamId) {
+      await this.revoke(token.access_token);
+      return htmlPage(
+        "Wrong Slack workspace",
+        "This server only accepts sign-ins to its own Slack workspace. Sign in again and choose that workspace.",
+        403,
+      );
+    }
+
+    await this.tokens.put(signIn.principal, token);
+    return htmlPage(
+      "Signed in to Slack",
+      "You can close this window. Slack tools will now act as you.",
+    );
+  }
+
+  // Mark `key` as used; false when it already was
+  private async useOnce(key: string): Promise<boolean> {
+    if ((await this.used.get(key)) !== null) {
+      return false;
+    }
+    await this.used.put(key, "1", { expirationTtl: STATE_TTL_SECONDS });
+    return true;
+  }
+
+  // Invalidate a token the server will not keep, so it is not left live
+  private async revoke(token: string): Promise<void> {
+    try {
+      const response = await fetch(`${this.config.apiUrl}/auth.revoke`, {
+        method: "POST",
+        headers: { Authorization: `Bearer ${token}` },
+      });
+      const data = (await response.json()) as { ok: boolean; error?: string };
+      if (!data.ok) {
+        console.error("auth.revoke failed:", data.error);
+      }
+    } catch (error) {
+      console.error("Could not revoke a Slack token:", error);
+    }
+  }
+
+  // Call oauth.v2.access for either an authorization code or a refresh token
+  private async exchange(
+    params: Record<string, string>,
+  ): Promise<StoredUserToken | undefined> {
+    const response = await fetch(`${this.config.apiUrl}/oauth.v2.access`, {
+      method: "POST",
+      headers: { "Content-Type": "application/x-www-form-urlencoded" },
+      body: new URLSearchParams({
+        client_id: this.config.clientId,
+        client_secret: this.config.clientSecret,
+        ...params,
+      }),
+    });
+    const data = (await response.json()) as OAuthAccessResponse;
+    if (!data.ok || !data.authed_user?.access_token) {
+      console.error("oauth.v2.access failed:", data.error);
+      return undefined;
+    }
+
+    const user = data.authed_user;
+    return {
+      access_token: user.access_token,
+      user_id: user.id,
+      team_id: data.team?.id ?? "",
+      scope: user.scope,
+      refresh_token: user.refresh_token,
+      expires_at: user.expires_in
+        ? Math.floor(Date.now() / 1000) + user.expires_in
+        : undefined,
+    };
+  }
+
+  private async signState(state: SignInState): Promise<string> {
+    const payload = base64UrlEncode(
+      new TextEncoder().encode(JSON.stringify(state)),
+    );
+    const signature = await crypto.subtle.sign(
+      "HMAC",
+      await this.hmacKey,
+      new TextEncoder().encode(payload),
+    );
+    return `${payload}.${base64UrlEncode(new Uint8Array(signature))}`;
+  }
+
+  // The state when it is genuine and current; anything malformed counts as
+  // not genuine
+  private async verifyState(value: string): Promise<SignInState | undefined> {
+    const [payload, signature] = value.split(".");
+    if (!payload || !signature) {
+      return undefined;
+    }
+    try {
+      const valid = await crypto.subtle.verify(
+        "HMAC",
+        await this.hmacKey,
+        base64UrlDecode(signature),
+        new TextEncoder().encode(payload),
+      );
+      if (!valid) {
+        return undefined;
+      }
+
+      const state = JSON.parse(
+        new TextDecoder().decode(base64UrlDecode(payload)),
+      ) as SignInState;
+      return state.expires > Date.now() / 1000 ? state : undefined;
+    } catch {
+      return undefined;
+    }
+  }
+}
@@ -0,0 +1,115 @@
+// Socket Mode client for the stdio server: receives Slack events over a
+// WebSocket the server opens itself, so no public URL is needed.
+import { backoffDelay, sleep } from "./rate-limit.js";
+import { SlackClient } from "./slack-client.js";
+
+// Waits between reconnection attempts after failures
+const RECONNECT_POLICY = { maxRetries: Infinity, baseDelayMs: 1000, maxDelayMs: 30_000 };
+
+export interface SocketModeOptions {
+  // Called with the payload of each events_api envelope (an event_callback)
+  onEvent: (payload: any) => void;
+}
+
+/**
+ * Keeps one Socket Mode connection open. Every envelope is acknowledged as
+ * soon as it arrives, as Slack redelivers unacknowledged ones. When Slack
+ * asks to reconnect or the socket drops, a new URL is requested from
+ * apps.connections.open and the connection is reopened.
+ */
+export class SocketModeClient {
+  private slack: SlackClient;
+  private options: SocketModeOptions;
+  private socket?: WebSocket;
+  private stopped = false;
+  private failures = 0;
+
+  // `slack` must use the app-level (xapp-) token
+  constructor(slack: SlackClient, options: SocketModeOptions) {
+    this.slack = slack;
+    this.options = options;
+  }
+
+  start() {
+    if (typeof WebSocket === "undefined") {
+      throw new Error("Socket Mode needs a runtime with WebSocket support (Node.js 22 or later)");
+    }
+    this.connect();
+  }
+
+  stop() {
+    this.stopped = true;
+    this.socket?.close();
+  }
+
+  private async connect() {
+    while (!this.stopped) {
+      try {
+        const { url } = await this.slack.openSocketConnection();
+        this.open(url);
+        return;
+      } catch (error) {
+        console.error("Could not open a Socket Mode connection:", error);
+        await sleep(backoffDelay(RECONNECT_POLICY, this.failures++));
+      }
+    }
+  }
+
+  private open(url: string) {
+    const socket = new WebSocket(url);
+    this.socket = socket;
+    let reconnecting = false;
+    const reconnect = () => {
+      if (reconnecting || this.stopped) {
+        return;
+      }
+      reconnecting = true;
+      socket.close();
+      this.connect();
+    };
+
+    socket.addEventListener("message", (message) => {
+      let envelope: any;
+      try {
+        envelope = JSON.parse(String(message.data));
+      } catch {
+        console.error("Ignoring a Socket Mode message that is not JSON");
+        return;
+      }
+      if (envelope.envelope_id) {
+        socket.send(JSON.stringify({ envelope_id: envelope.envelope_id }));
+      }
+
+      switch (envelope.type) {
+        case "hello":
+          this.failures = 0;
+          console.error("Socket Mode connected");
+          break;
+        case "events_api":
+          try {
+            this.options.onEvent(envelope.payload);
+          } catch (error) {
+            console.error("Error handling a Slack event:", error);
+          }
+          break;
+        case "disconnect":
+          // Slack sends this before it closes the connection, e.g. to refresh it
+          console.error(`Socket Mode disconnect requested (${envelope.reason}); reconnecting`);
+          reconnect();
+          break;
+      }
+    });
+
+    socket.addEventListener("close", () => {
+      if (!reconnecting && !this.stopped) {
+        console.error("Socket Mode connection closed; reconnecting");
+        this.failures++;
+        // Avoid a tight loop when connections are refused straight away
+        sleep(backoffDelay(RECONNECT_POLICY, this.failures)).then(reconnect);
+      }
+    });
+    socket.addEventListener("error", () => {
+      console.error("Socket Mode connection error");
+    });
+  }
+}
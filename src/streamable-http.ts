@@ -0,0 +1,486 @@
+// MCP Streamable HTTP transport built on the Fetch API's Request/Response,
+// so the same code runs inside the Cloudflare Worker and under Node.
+import { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import { Transport } from "@modelcontextprotocol/sdk/shared/transport.js";
+import {
+  ErrorCode,
+  JSONRPCMessage,
+  JSONRPCMessageSchema,
+  RequestId,
+} from "@modelcontextprotocol/sdk/types.js";
+import { SUPPORTED_PROTOCOL_VERSIONS } from "./protocol.js";
+
+export const SESSION_ID_HEADER = "Mcp-Session-Id";
+export const PROTOCOL_VERSION_HEADER = "MCP-Protocol-Version";
+
+// Sessions that see no traffic for this long are closed and forgotten
+const DEFAULT_SESSION_IDLE_MS = 30 * 60 * 1000;
+
+const encoder = new TextEncoder();
+
+function isRequest(message: JSONRPCMessage): boolean {
+  return "method" in message && "id" in message;
+}
+
+function isResponse(message: JSONRPCMessage): boolean {
+  return "result" in message || "error" in message;
+}
+
+function isInitialize(message: JSONRPCMessage): boolean {
+  return isRequest(message) && (message as { method: string }).method === "initialize";
+}
+
+function encodeEvent(message: JSONRPCMessage): Uint8Array {
+  return encoder.encode(`event: message\ndata: ${JSON.stringify(message)}\n\n`);
+}
+
+export function jsonRpcErrorResponse(
+  status: number,
+  code: number,
+  message: string,
+  id: RequestId | null = null,
+): Response {
+  return new Response(
+    JSON.stringify({ jsonrpc: "2.0", id, error: { code, message } }),
+    { status, headers: { "Content-Type": "application/json" } },
+  );
+}
+
+// One POST whose requests are still waiting for responses
+interface PendingCall {
+  remaining: Set<RequestId>;
+  responses: JSONRPCMessage[];
+  stream?: ReadableStreamDefaultController<Uint8Array>;
+  done: () => void;
+}
+
+/**
+ * Server side of a single Streamable HTTP session. Incoming POST bodies are
+ * handed to the connected Server, and the responses it sends are routed back
+ * to the HTTP response of the POST that carried the matching request, either
+ * as one JSON body or as an SSE stream.
+ */
+export class StreamableHTTPServerTransport implements Transport {
+  readonly sessionId: string;
+  // Principal that initialized the session; only it may keep using it
+  readonly owner?: string;
+  lastActivity = Date.now();
+
+  private calls = new Map<RequestId, PendingCall>();
+  private openCalls = new Set<PendingCall>();
+  private standalone?: ReadableStreamDefaultController<Uint8Array>;
+  private closed = false;
+
+  onclose?: () => void;
+  onerror?: (error: Error) => void;
+  onmessage?: (message: JSONRPCMessage) => void;
+
+  constructor(sessionId: string, owner?: string) {
+    this.sessionId = sessionId;
+    this.owner = owner;
+  }
+
+  async start(): Promise<void> {}
+
+  async send(message: JSONRPCMessage): Promise<void> {
+    if (this.closed) {
+      throw new Error("Transport is closed");
+    }
+
+    if (isResponse(message)) {
+      const id = (message as { id: RequestId }).id;
+      const call = this.calls.get(id);
+      if (!call) {
+        throw new Error(`No pending request with id ${id}`);
+      }
+      this.calls.delete(id);
+      call.remaining.delete(id);
+      if (call.stream) {
+        call.stream.enqueue(encodeEvent(message));
+      } else {
+        call.responses.push(message);
+      }
+      if (call.remaining.size === 0) {
+        call.done();
+      }
+      return;
+    }
+
+    // Server-initiated notifications and requests prefer the standalone GET
+    // stream, falling back to whichever POST stream is still open.
+    if (this.standalone) {
+      this.standalone.enqueue(encodeEvent(message));
+      return;
+    }
+    for (const call of this.openCalls) {
+      if (call.stream) {
+        call.stream.enqueue(encodeEvent(message));
+        return;
+      }
+    }
+  }
+
+  async close(): Promise<void> {
+    if (this.closed) {
+      return;
+    }
+    this.closed = true;
+    for (const call of this.openCalls) {
+      call.done();
+    }
+    this.openCalls.clear();
+    this.calls.clear();
+    this.closeStandalone();
+    this.onclose?.();
+  }
+
+  /**
+   * Dispatch already-validated messages from a POST body and build the HTTP
+   * response for them.
+   */
+  async handlePost(
+    messages: JSONRPCMessage[],
+    isBatch: boolean,
+    acceptsStream: boolean,
+  ): Promise<Response> {
+    this.lastActivity = Date.now();
+    const headers = { [SESSION_ID_HEADER]: this.sessionId };
+    const requests = messages.filter(isRequest) as { id: RequestId }[];
+
+    if (requests.length === 0) {
+      for (const message of messages) {
+        this.onmessage?.(message);
+      }
+      return new Response(null, { status: 202, headers });
+    }
+
+    for (const { id } of requests) {
+      if (this.calls.has(id)) {
+        return jsonRpcErrorResponse(
+          400,
+          ErrorCode.InvalidRequest,
+          `Bad Request: request id ${id} is already in flight`,
+          id,
+        );
+      }
+    }
+
+    let resolveDone!: () => void;
+    const finished = new Promise<void>((resolve) => {
+      resolveDone = resolve;
+    });
+    const call: PendingCall = {
+      remaining: new Set(requests.map(({ id }) => id)),
+      responses: [],
+      done: () => {
+        this.openCalls.delete(call);
+        if (call.stream) {
+          try {
+            call.stream.close();
+          } catch {
+            // The client already went away
+          }
+        }
+        resolveDone();
+      },
+    };
+
+    let body: ReadableStream<Uint8Array> | undefined;
+    if (acceptsStream) {
+      body = new ReadableStream<Uint8Array>({
+        start: (controller) => {
+          call.stream = controller;
+        },
+        cancel: () => {
+          for (const id of call.remaining) {
+            this.calls.delete(id);
+          }
+          call.stream = undefined;
+          this.openCalls.delete(call);
+          resolveDone();
+        },
+      });
+    }
+
+    this.openCalls.add(call);
+    for (const { id } of requests) {
+      this.calls.set(id, call);
+    }
+    for (const message of messages) {
+      this.onmessage?.(message);
+    }
+
+    if (body) {
+      return new Response(body, {
+        headers: {
+          ...headers,
+          "Content-Type": "text/event-stream",
+          "Cache-Control": "no-cache",
+        },
+      });
+    }
+
+    await finished;
+    const payload = isBatch ? call.responses : call.responses[0];
+    return new Response(JSON.stringify(payload), {
+      headers: { ...headers, "Content-Type": "application/json" },
+    });
+  }
+
+  /**
+   * Open the standalone SSE stream a client uses to receive server-initiated
+   * messages outside of any POST.
+   */
+  handleGet(): Response {
+    this.lastActivity = Date.now();
+    if (this.standalone) {
+      return jsonRpcErrorResponse(
+        409,
+        ErrorCode.InvalidRequest,
+        "Conflict: only one SSE stream is allowed per session",
+      );
+    }
+
+    const body = new ReadableStream<Uint8Array>({
+      start: (controller) => {
+        this.standalone = controller;
+      },
+      cancel: () => {
+        this.standalone = undefined;
+      },
+    });
+
+    return new Response(body, {
+      headers: {
+        [SESSION_ID_HEADER]: this.sessionId,
+        "Content-Type": "text/event-stream",
+        "Cache-Control": "no-cache",
+      },
+    });
+  }
+
+  private closeStandalone() {
+    if (this.standalone) {
+      try {
+        this.standalone.close();
+      } catch {
+        // The client already went away
+      }
+      this.standalone = undefined;
+    }
+  }
+}
+
+export interface SessionManagerOptions {
+  idleTimeoutMs?: number;
+}
+
+/**
+ * Routes HTTP requests to MCP sessions: issues an Mcp-Session-Id on
+ * initialize, validates it on every later request and tears the session down
+ * on DELETE. Sessions live in memory, so a client whose session was dropped
+ * (idle timeout, or a different Worker isolate) gets a 404 and must
+ * re-initialize, as the specification requires.
+ */
+export class SessionManager {
+  private sessions = new Map<string, StreamableHTTPServerTransport>();
+  private idleTimeoutMs: number;
+
+  constructor(options: SessionManagerOptions = {}) {
+    this.idleTimeoutMs = options.idleTimeoutMs ?? DEFAULT_SESSION_IDLE_MS;
+  }
+
+  get size(): number {
+    return this.sessions.size;
+  }
+
+  /**
+   * Handle one MCP HTTP request. `createServer` is only called when a client
+   * initializes a new session. When `owner` is given, the session is bound to
+   * it and requests from anyone else are answered as if it did not exist.
+   */
+  async handleRequest(
+    request: Request,
+    createServer: () => Server,
+    owner?: string,
+  ): Promise<Response> {
+    this.expireIdleSessions();
+
+    switch (request.method) {
+      case "POST":
+        return this.handlePost(request, createServer, owner);
+      case "GET":
+        return this.handleGet(request, owner);
+      case "DELETE":
+        return this.handleDelete(request, owner);
+      default:
+        return new Response(null, {
+          status: 405,
+          headers: { Allow: "GET, POST, DELETE" },
+        });
+    }
+  }
+
+  private async handlePost(
+    request: Request,
+    createServer: () => Server,
+    owner?: string,
+  ): Promise<Response> {
+    const accept = request.headers.get("Accept") ?? "*/*";
+    const acceptsJson = /application\/json|\*\/\*/.test(accept);
+    const acceptsStream = accept.includes("text/event-stream");
+    if (!acceptsJson && !acceptsStream) {
+      return jsonRpcErrorResponse(
+        406,
+        ErrorCode.InvalidRequest,
+        "Not Acceptable: client must accept application/json or text/event-stream",
+      );
+    }
+
+    const contentType = request.headers.get("Content-Type") ?? "";
+    if (!contentType.includes("application/json")) {
+      return jsonRpcErrorResponse(
+        415,
+        ErrorCode.InvalidRequest,
+        "Unsupported Media Type: Content-Type must be application/json",
+      );
+    }
+
+    let body: unknown;
+    try {
+      body = JSON.parse(await request.text());
+    } catch {
+      return jsonRpcErrorResponse(400, ErrorCode.ParseError, "Parse error");
+    }
+
+    const isBatch = Array.isArray(body);
+    const rawMessages = isBatch ? (body as unknown[]) : [body];
+    if (rawMessages.length === 0) {
+      return jsonRpcErrorResponse(
+        400,
+        ErrorCode.InvalidRequest,
+        "Invalid Request: empty batch",
+      );
+    }
+
+    const messages: JSONRPCMessage[] = [];
+    for (const raw of rawMessages) {
+      const parsed = JSONRPCMessageSchema.safeParse(raw);
+      if (!parsed.success) {
+        const id = (raw as { id?: unknown })?.id;
+        return jsonRpcErrorResponse(
+          400,
+          ErrorCode.InvalidRequest,
+          "Invalid Request: not a JSON-RPC 2.0 message",
+          typeof id === "string" || typeof id === "number" ? id : null,
+        );
+      }
+      messages.push(parsed.data);
+    }
+
+    if (messages.some(isInitialize)) {
+      if (messages.length > 1) {
+        return jsonRpcErrorResponse(
+          400,
+          ErrorCode.InvalidRequest,
+          "Invalid Request: initialize must not be part of a batch",
+        );
+      }
+      const transport = new StreamableHTTPServerTransport(
+        crypto.randomUUID(),
+        owner,
+      );
+      await createServer().connect(transport);
+      this.sessions.set(transport.sessionId, transport);
+      return transport.handlePost(messages, isBatch, acceptsStream);
+    }
+
+    const session = this.resolveSession(request, owner);
+    if (session instanceof Response) {
+      return session;
+    }
+    return session.handlePost(messages, isBatch, acceptsStream);
+  }
+
+  private handleGet(request: Request, owner?: string): Response {
+    const accept = request.headers.get("Accept") ?? "";
+    if (!accept.includes("text/event-stream")) {
+      return jsonRpcErrorResponse(
+        406,
+        ErrorCode.InvalidRequest,
+        "Not Acceptable: client must accept text/event-stream",
+      );
+    }
+
+    const session = this.resolveSession(request, owner);
+    if (session instanceof Response) {
+      return session;
+    }
+    return session.handleGet();
+  }
+
+  private async handleDelete(
+    request: Request,
+    owner?: string,
+  ): Promise<Response> {
+    const session = this.resolveSession(request, owner);
+    if (session instanceof Response) {
+      return session;
+    }
+    await this.closeSession(session);
+    return new Response(null, { status: 200 });
+  }
+
+  // Look up the session named by the request headers, or explain why not
+  private resolveSession(
+    request: Request,
+    owner?: string,
+  ): StreamableHTTPServerTransport | Response {
+    const sessionId = request.headers.get(SESSION_ID_HEADER);
+    if (!sessionId) {
+      return jsonRpcErrorResponse(
+        400,
+        ErrorCode.InvalidRequest,
+        `Bad Request: ${SESSION_ID_HEADER} header is required`,
+      );
+    }
+
+    const session = this.sessions.get(sessionId);
+    if (!session || session.owner !== owner) {
+      return jsonRpcErrorResponse(
+        404,
+        ErrorCode.InvalidRequest,
+        "Session not found",
+      );
+    }
+
+    const protocolVersion = request.headers.get(PROTOCOL_VERSION_HEADER);
+    if (protocolVersion && !SUPPORTED_PROTOCOL_VERSIONS.includes(protocolVersion)) {
+      return jsonRpcErrorResponse(
+        400,
+        ErrorCode.InvalidRequest,
+        `Bad Request: unsupported protocol version ${protocolVersion} (supported: ${SUPPORTED_PROTOCOL_VERSIONS.join(", ")})`,
+      );
+    }
+
+    return session;
+  }
+
+  private expireIdleSessions() {
+    const cutoff = Date.now() - this.idleTimeoutMs;
+    for (const session of this.sessions.values()) {
+      if (session.lastActivity < cutoff) {
+        this.closeSession(session).catch((error) => {
+          console.error("Error closing idle session:", error);
+        });
+      }
+    }
+  }
+
+  // The Server owns the transport's onclose callback, so the session map is
+  // maintained here rather than from inside the transport
+  private async closeSession(session: StreamableHTTPServerTransport) {
+    this.sessions.delete(session.sessionId);
+    await session.close();
+  }
+}
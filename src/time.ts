@@ -0,0 +1,294 @@
+// Parsing of the time expressions tools accept for history ranges
+import { ErrorCode, McpError } from "@modelcontextprotocol/sdk/types.js";
+
+const UNIT_SECONDS: Record<string, number> = {
+  s: 1,
+  m: 60,
+  h: 60 * 60,
+  d: 24 * 60 * 60,
+  w: 7 * 24 * 60 * 60,
+};
+
+// Unit names in durations, matched to UNIT_SECONDS by their first letter
+const DURATION_UNITS = "s|secs?|seconds?|m|mins?|minutes?|h|hrs?|hours?|d|days?|w|weeks?";
+// "24h", "2 days ago"; "in 2 hours", "+30m"
+const PAST_DURATION = new RegExp(`^(\\d+)\\s*(${DURATION_UNITS})(?:\\s+ago)?$`);
+const FUTURE_DURATION = new RegExp(`^(?:in |\\+)(\\d+) ?(${DURATION_UNITS})$`);
+
+// ISO-8601 date, or date and time with an optional UTC offset (lowercased)
+const ISO_TIME = /^(\d{4}-\d{2}-\d{2})(?:[t ](\d{2}:\d{2}(?::\d{2}(?:\.\d+)?)?)(z|[+-]\d{2}:?\d{2})?)?$/;
+
+// Slack timestamps and unix seconds; shorter numbers are more likely typos
+// or counts than times in the 1970s
+const UNIX_SECONDS = /^\d{9,}(\.\d+)?$/;
+
+const WEEKDAYS = [
+  "sunday",
+  "monday",
+  "tuesday",
+  "wednesday",
+  "thursday",
+  "friday",
+  "saturday",
+];
+
+// Unix milliseconds of an ISO_TIME match; a time without an offset is UTC
+function isoTime(match: RegExpMatchArray): number {
+  const [, date, time, offset] = match;
+  if (!time) {
+    return Date.parse(date);
+  }
+  const zone = !offset || offset === "z" ? "Z" : offset.replace(/^([+-]\d{2})(\d{2})$/, "$1:$2");
+  return Date.parse(`${date}T${time}${zone}`);
+}
+
+function startOfUtcDay(date: Date): number {
+  return Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()) / 1000;
+}
+
+/**
+ * Convert a time expression to unix seconds. Accepts Slack timestamps
+ * ("1712345678.123456"), ISO-8601 dates and datetimes (UTC unless they give
+ * an offset), durations back from now ("24h", "30m", "7d", "2 days", "48
+ * hours", optionally followed by "ago"), "now", "today", "yesterday" and
+ * weekdays ("monday", "since Monday", "last friday"), which mean the start
+ * of that day in UTC within the past week. Returns undefined when the
+ * expression is not understood.
+ */
+export function parseTimeExpression(
+  value: string,
+  now: Date = new Date(),
+): number | undefined {
+  const expression = value.trim().toLowerCase().replace(/^(since|from)\s+/, "");
+  const nowSeconds = now.getTime() / 1000;
+
+  if (UNIX_SECONDS.test(expression)) {
+    return Number(expression);
+  }
+
+  const duration = expression.match(PAST_DURATION);
+  if (duration) {
+    return nowSeconds - Number(duration[1]) * UNIT_SECONDS[duration[2][0]];
+  }
+
+  if (expression === "now") {
+    return nowSeconds;
+  }
+  if (expression === "today") {
+    return startOfUtcDay(now);
+  }
+  if (expression === "yesterday") {
+    return startOfUtcDay(now) - UNIT_SECONDS.d;
+  }
+
+  const weekday = WEEKDAYS.indexOf(expression.replace(/^last\s+/, ""));
+  if (weekday !== -1) {
+    const daysBack = (now.getUTCDay() - weekday + 7) % 7 || 7;
+    // "since Monday" on a Monday means today, "last monday" a week ago
+    const back = daysBack === 7 && !expression.startsWith("last") ? 0 : daysBack;
+    return startOfUtcDay(now) - back * UNIT_SECONDS.d;
+  }
+
+  const iso = expression.match(ISO_TIME);
+  if (iso) {
+    const parsed = isoTime(iso);
+    return Number.isNaN(parsed) ? undefined : parsed / 1000;
+  }
+  return undefined;
+}
+
+// Format unix seconds the way Slack expects timestamps
+export function toSlackTs(seconds: number): string {
+  return seconds.toFixed(6);
+}
+
+/**
+ * Parse a time expression into a Slack timestamp, throwing a readable error
+ * naming the argument when it is not understood.
+ */
+export function parseTimeBound(
+  name: string,
+  value: string | undefined,
+  now?: Date,
+): string | undefined {
+  if (value === undefined || value === "") {
+    return undefined;
+  }
+  const seconds = parseTimeExpression(value, now);
+  if (seconds === undefined) {
+    throw new McpError(
+      ErrorCode.InvalidParams,
+      `Could not understand ${name} "${value}". Use an ISO-8601 date, a Slack timestamp, or a relative time such as "24h", "2 days" or "since Monday".`,
+    );
+  }
+  return toSlackTs(seconds);
+}
+
+// Offset of `timeZone` from UTC at the given instant, in milliseconds
+function zoneOffset(instant: number, timeZone: string): number {
+  const parts: Record<string, number> = {};
+  for (const part of new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    hourCycle: "h23",
+    year: "numeric",
+    month: "numeric",
+    day: "numeric",
+    hour: "numeric",
+    minute: "numeric",
+    second: "numeric",
+  }).formatToParts(new Date(instant))) {
+    parts[part.type] = Number(part.value);
+  }
+  const local = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second);
+  return local - Math.floor(instant / 1000) * 1000;
+}
+
+// Unix milliseconds of a wall-clock time in `timeZone`
+function zonedTime(
+  year: number,
+  month: number,
+  day: number,
+  hour: number,
+  minute: number,
+  timeZone: string,
+): number {
+  const guess = Date.UTC(year, month, day, hour, minute);
+  const offset = zoneOffset(guess, timeZone);
+  // Check the offset again at the result, in case a DST change lies between
+  return guess - zoneOffset(guess - offset, timeZone);
+}
+
+// Calendar date of an instant as seen in `timeZone`
+function zonedDate(instant: number, timeZone: string): { year: number; month: number; day: number; weekday: number } {
+  const local = new Date(instant + zoneOffset(instant, timeZone));
+  return {
+    year: local.getUTCFullYear(),
+    month: local.getUTCMonth(),
+    day: local.getUTCDate(),
+    weekday: local.getUTCDay(),
+  };
+}
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function parseClock(value: string): [number, number] | undefined {
+  if (value === "noon") {
+    return [12, 0];
+  }
+  if (value === "midnight") {
+    return [0, 0];
+  }
+  const match = value.match(/^(\d{1,2})(?::(\d{2}))?\s*(am|pm)?$/);
+  if (!match || (!match[2] && !match[3])) {
+    return undefined;
+  }
+  let hour = Number(match[1]);
+  const minute = Number(match[2] ?? 0);
+  if (match[3]) {
+    if (hour < 1 || hour > 12) {
+      return undefined;
+    }
+    hour = (hour % 12) + (match[3] === "pm" ? 12 : 0);
+  }
+  if (hour > 23 || minute > 59) {
+    return undefined;
+  }
+  return [hour, minute];
+}
+
+// Default time of day when only a day is given
+const DEFAULT_CLOCK: [number, number] = [9, 0];
+
+/**
+ * Convert an expression for a future moment to unix seconds. Accepts
+ * durations ("in 2 hours", "in 30m"), ISO-8601 datetimes (a missing offset
+ * means `timeZone`), unix timestamps and a day and/or clock time such as
+ * "9am tomorrow", "tomorrow at 17:30", "friday 4pm", "next monday",
+ * "2024-06-03 09:00" or "noon". A day without a time means 9am; a time
+ * without a day means the next time the clock shows it.
+ */
+export function parseFutureTime(
+  value: string,
+  timeZone = "UTC",
+  now: Date = new Date(),
+): number | undefined {
+  const expression = value.trim().toLowerCase().replace(/\s+/g, " ");
+  const nowMs = now.getTime();
+
+  if (UNIX_SECONDS.test(expression)) {
+    return Number(expression);
+  }
+
+  const duration = expression.match(FUTURE_DURATION);
+  if (duration) {
+    return nowMs / 1000 + Number(duration[1]) * UNIT_SECONDS[duration[2][0]];
+  }
+
+  // Times with an offset are exact; those without are read in `timeZone` below
+  const iso = expression.match(ISO_TIME);
+  if (iso?.[3]) {
+    const parsed = isoTime(iso);
+    return Number.isNaN(parsed) ? undefined : parsed / 1000;
+  }
+
+  const today = zonedDate(nowMs, timeZone);
+  let date: { year: number; month: number; day: number } | undefined;
+  let clock: [number, number] | undefined;
+
+  const words = expression
+    .replace(/^(at|on) /, "")
+    .replace(/ (at|on) /g, " ")
+    .replace(/(\d)t(\d)/, "$1 $2")
+    .replace(/(\d) (am|pm)\b/g, "$1$2")
+    .split(" ");
+  for (let index = 0; index < words.length; index++) {
+    const word = words[index];
+    const next = word === "next" ? words[++index] : undefined;
+    const dayWord = next ?? word;
+
+    const isoDate = dayWord.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+    const weekday = WEEKDAYS.indexOf(dayWord);
+    if (isoDate) {
+      date = { year: Number(isoDate[1]), month: Number(isoDate[2]) - 1, day: Number(isoDate[3]) };
+    } else if (dayWord === "today" || dayWord === "tonight") {
+      date = today;
+      clock = clock ?? (dayWord === "tonight" ? [20, 0] : undefined);
+    } else if (dayWord === "tomorrow") {
+      date = { ...today, day: today.day + 1 };
+    } else if (weekday !== -1) {
+      // The coming such day; "next" or today's weekday means a week later
+      const ahead = (weekday - today.weekday + 7) % 7 || 7;
+      date = { ...today, day: today.day + ahead };
+    } else {
+      const parsedClock = parseClock(word);
+      if (!parsedClock) {
+        return undefined;
+      }
+      clock = parsedClock;
+    }
+  }
+
+  if (!date && !clock) {
+    return undefined;
+  }
+  const [hour, minute] = clock ?? DEFAULT_CLOCK;
+  let result = zonedTime(
+    (date ?? today).year,
+    (date ?? today).month,
+    (date ?? today).day,
+    hour,
+    minute,
+    timeZone,
+  );
+  if (!date && result <= nowMs) {
+    result = zonedTime(today.year, today.month, today.day + 1, hour, minute, timeZone);
+  }
+  return result / 1000;
+}
@@ -0,0 +1,44 @@
+import { ToolDefinition, jsonResult } from "./common.js";
+
+export const signInTool: ToolDefinition<{}> = {
+  name: "slack_sign_in",
+  description:
+    "Link your own Slack account so tools act as you instead of the bot. Returns a sign-in link for the user to open, or the account already linked.",
+  inputSchema: {
+    type: "object",
+    properties: {},
+  },
+  isAvailable: (context) => context.account !== undefined,
+  async handler(_args, { account }) {
+    const current = await account!.currentUser();
+    if (current) {
+      return jsonResult({
+        signed_in: true,
+        user_id: current.user_id,
+        team_id: current.team_id,
+        scope: current.scope,
+      });
+    }
+    return jsonResult({
+      signed_in: false,
+      sign_in_url: await account!.signInUrl(),
+      instructions:
+        "Ask the user to open sign_in_url in a browser. The link expires in 10 minutes.",
+    });
+  },
+};
+
+export const signOutTool: ToolDefinition<{}> = {
+  name: "slack_sign_out",
+  description:
+    "Forget your linked Slack account; tools go back to acting as the bot",
+  inputSchema: {
+    type: "object",
+    properties: {},
+  },
+  isAvailable: (context) => context.account !== undefined,
+  async handler(_args, { account }) {
+    await account!.signOut();
+    return jsonResult({ signed_in: false });
+  },
+};
@@ -0,0 +1,117 @@
+import { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
+import { PendingAction } from "../approval.js";
+import { ToolError } from "../errors.js";
+import { ToolContext, ToolDefinition, jsonResult } from "./common.js";
+import { callTool } from "./index.js";
+
+// Type definitions for tool arguments
+interface ActionArgs {
+  action_id: string;
+}
+
+const ACTION_ID_PROPERTY = {
+  type: "string",
+  description: "The action_id returned by the dry run",
+};
+
+function hasApprovals(context: ToolContext): boolean {
+  return context.approvals !== undefined;
+}
+
+// The caller's pending action; admins may handle anyone's
+async function findAction(id: string, context: ToolContext): Promise<PendingAction> {
+  const action = await context.approvals!.get(id);
+  if (!action || (action.caller !== context.caller?.id && !context.caller?.admin)) {
+    throw new ToolError(
+      "action_not_found",
+      `No pending action ${id}`,
+      "It may have expired or already been confirmed or cancelled. Dry run the tool again for a new action_id.",
+    );
+  }
+  return action;
+}
+
+// Run the held call for real. The action is removed first so that it can
+// only ever be sent once.
+async function runAction(action: PendingAction, context: ToolContext): Promise<CallToolResult> {
+  await context.approvals!.remove(action.action_id);
+  return callTool(
+    action.tool,
+    { ...action.args, dry_run: false, confirm: true },
+    { ...context, dryRun: false },
+  );
+}
+
+/**
+ * Hold a call for approval instead of running it. When the client supports
+ * elicitation the user is asked straight away; otherwise, or when they do
+ * not answer, the preview and action_id are returned for the agent to show
+ * and confirm later.
+ */
+export async function holdForApproval(
+  tool: ToolDefinition,
+  args: Record<string, unknown>,
+  context: ToolContext,
+): Promise<CallToolResult> {
+  if (!context.approvals || !tool.preview) {
+    throw new ToolError("dry_run_unavailable", `${tool.name} cannot be dry run on this server`);
+  }
+  const preview = await tool.preview(args, context);
+  const { dry_run, confirm, ...heldArgs } = args;
+  const action = await context.approvals.create(tool.name, heldArgs, preview, context.caller?.id);
+
+  const answer = await context.elicit?.(
+    preview.text ? `${preview.summary}?\n\n${preview.text}` : `${preview.summary}?`,
+  );
+  if (answer === "accept") {
+    return runAction(action, context);
+  }
+  if (answer === "decline" || answer === "cancel") {
+    await context.approvals.remove(action.action_id);
+    return jsonResult({ dry_run: true, action_id: action.action_id, status: "declined", preview });
+  }
+
+  return jsonResult({
+    dry_run: true,
+    action_id: action.action_id,
+    status: "pending",
+    expires_at: action.expires_at,
+    preview,
+    hint: "Nothing was sent. Show the preview to the user and call slack_confirm_action with the action_id once they approve it, or slack_cancel_action if they do not.",
+  });
+}
+
+export const confirmActionTool: ToolDefinition<ActionArgs> = {
+  name: "slack_confirm_action",
+  description:
+    "Send a message held by a dry run, once the user has approved its preview. Returns what the original tool returns.",
+  inputSchema: {
+    type: "object",
+    properties: {
+      action_id: ACTION_ID_PROPERTY,
+    },
+    required: ["action_id"],
+  },
+  isAvailable: hasApprovals,
+  async handler(args, context) {
+    return runAction(await findAction(args.action_id, context), context);
+  },
+};
+
+export const cancelActionTool: ToolDefinition<ActionArgs> = {
+  name: "slack_cancel_action",
+  description: "Discard a message held by a dry run without sending it",
+  inputSchema: {
+    type: "object",
+    properties: {
+      action_id: ACTION_ID_PROPERTY,
+    },
+    required: ["action_id"],
+  },
+  isAvailable: hasApprovals,
+  async handler(args, context) {
+    const action = await findAction(args.action_id, context);
+    await context.approvals!.remove(action.action_id);
+    return jsonResult({ ok: true, action_id: action.action_id, status: "cancelled" });
+  },
+};
@@ -0,0 +1,76 @@
+import { AuditStatus } from "../audit.js";
+import { parseTimeBound } from "../time.js";
+import { ToolDefinition, jsonResult } from "./common.js";
+
+// Type definitions for tool arguments
+interface AuditQueryArgs {
+  caller_id?: string;
+  tool?: string;
+  channel_id?: string;
+  status?: AuditStatus;
+  since?: string;
+  until?: string;
+  limit?: number;
+}
+
+const DEFAULT_AUDIT_LIMIT = 50;
+const MAX_AUDIT_LIMIT = 500;
+
+// Audit log times are ISO-8601, time bounds parse to Slack timestamps
+function isoBound(name: string, value: string | undefined): string | undefined {
+  const ts = parseTimeBound(name, value);
+  return ts === undefined ? undefined : new Date(Number(ts) * 1000).toISOString();
+}
+
+export const auditQueryTool: ToolDefinition<AuditQueryArgs> = {
+  name: "slack_audit_query",
+  description:
+    "Search the audit log of tool calls made through this server, newest first: who called which tool with which arguments, the Slack methods it invoked, how it ended and the ts of any message it posted. Admins only.",
+  inputSchema: {
+    type: "object",
+    properties: {
+      caller_id: {
+        type: "string",
+        description: "Only calls by this caller, e.g. 'key:<API key name>', 'oauth:<subject>' or 'local'",
+      },
+      tool: {
+        type: "string",
+        description: "Only calls of this tool, e.g. 'slack_post_message'",
+      },
+      channel_id: {
+        type: "string",
+        description: "Only calls on this channel",
+      },
+      status: {
+        type: "string",
+        enum: ["ok", "error", "rejected"],
+        description: "Only calls that succeeded, failed, or were rejected before running",
+      },
+      since: {
+        type: "string",
+        description: "Only calls after this time: an ISO-8601 date or datetime, or a relative time such as '24h' or '7d'",
+      },
+      until: {
+        type: "string",
+        description: "Only calls before this time, in the same formats as since",
+      },
+      limit: {
+        type: "number",
+        description: `Most entries to return (default ${DEFAULT_AUDIT_LIMIT}, max ${MAX_AUDIT_LIMIT})`,
+      },
+    },
+  },
+  isAvailable: (context) => context.audit?.queryable === true && context.caller?.admin === true,
+  async handler(args, { audit }) {
+    const entries = await audit!.query({
+      caller_id: args.caller_id,
+      tool: args.tool,
+      channel_id: args.channel_id,
+      status: args.status,
+      since: isoBound("since", args.since),
+      until: isoBound("until", args.until),
+      limit: Math.max(1, Math.min(Math.floor(args.limit ?? DEFAULT_AUDIT_LIMIT), MAX_AUDIT_LIMIT)),
+    });
+    return jsonResult({ entries });
+  },
+};
@@ -0,0 +1,38 @@
+import { CachedMethod } from "../cache.js";
+import { ToolDefinition, jsonResult } from "./common.js";
+
+// Type definitions for tool arguments
+interface ClearCacheArgs {
+  scope?: "users" | "channels" | "emoji" | "all";
+}
+
+const SCOPE_METHODS: Record<string, CachedMethod[] | undefined> = {
+  users: ["users.list", "users.profile.get", "users.info"],
+  channels: ["conversations.info"],
+  emoji: ["emoji.list"],
+  // undefined clears every cached method
+  all: undefined,
+};
+
+export const clearCacheTool: ToolDefinition<ClearCacheArgs> = {
+  name: "slack_clear_cache",
+  description:
+    "Forget cached user, channel or emoji metadata, e.g. after someone was renamed or a channel was created",
+  inputSchema: {
+    type: "object",
+    properties: {
+      scope: {
+        type: "string",
+        enum: ["users", "channels", "emoji", "all"],
+        description: "Which metadata to forget (default all)",
+        default: "all",
+      },
+    },
+  },
+  isAvailable: (context) => context.slack.cacheEnabled,
+  async handler(args, { slack }) {
+    const scope = args.scope ?? "all";
+    await slack.invalidateCache(SCOPE_METHODS[scope]);
+    return jsonResult({ ok: true, cleared: scope });
+  },
+};
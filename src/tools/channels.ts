@@ -0,0 +1,178 @@
+import { ErrorCode, McpError } from "@modelcontextprotocol/sdk/types.js";
+import { ConversationType } from "../slack-client.js";
+import {
+  HISTORY_RANGE_PROPERTIES,
+  HistoryRangeArgs,
+  THREAD_TS_DESCRIPTION,
+  ToolDefinition,
+  historyOptions,
+  historyResult,
+  jsonResult,
+  maxMessages,
+  withNextCursor,
+} from "./common.js";
+
+// Type definitions for tool arguments
+interface ListChannelsArgs {
+  limit?: number;
+  cursor?: string;
+  types?: ChannelType[];
+  member_only?: boolean;
+}
+
+interface GetChannelHistoryArgs extends HistoryRangeArgs {
+  channel_id: string;
+  limit?: number;
+}
+
+interface GetThreadRepliesArgs extends HistoryRangeArgs {
+  channel_id: string;
+  thread_ts: string;
+  limit?: number;
+}
+
+type ChannelType = "public" | "private" | "mpim" | "im";
+
+// The names Slack gives each type
+const CONVERSATION_TYPES: Record<ChannelType, ConversationType> = {
+  public: "public_channel",
+  private: "private_channel",
+  mpim: "mpim",
+  im: "im",
+};
+
+export const listChannelsTool: ToolDefinition<ListChannelsArgs> = {
+  name: "slack_list_channels",
+  description:
+    "List channels, private channels, DMs and group DMs in the workspace (or the pre-defined channels) with pagination",
+  access: "read",
+  inputSchema: {
+    type: "object",
+    properties: {
+      limit: {
+        type: "number",
+        description:
+          "Maximum number of channels to return (default 100, max 200)",
+        default: 100,
+      },
+      cursor: {
+        type: "string",
+        description: "Pagination cursor for next page of results",
+      },
+      types: {
+        type: "array",
+        items: { type: "string", enum: Object.keys(CONVERSATION_TYPES) },
+        description:
+          "Kinds of conversation to list: 'public', 'private' (needs groups:read), 'mpim' for group DMs (needs mpim:read) and 'im' for DMs (needs im:read). Default ['public'], or every pre-defined channel",
+      },
+      member_only: {
+        type: "boolean",
+        description: "Only conversations the app (or signed-in user) is a member of (default false)",
+      },
+    },
+  },
+  async handler(args, { slack }) {
+    const types = args.types;
+    if (
+      types &&
+      (types.length === 0 || types.some((type) => !Object.hasOwn(CONVERSATION_TYPES, type)))
+    ) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        `types must be a list of ${Object.keys(CONVERSATION_TYPES).join(", ")}`,
+      );
+    }
+    const response = await slack.getChannels(args.limit, args.cursor, {
+      types: types?.map((type) => CONVERSATION_TYPES[type]),
+      memberOnly: args.member_only,
+    });
+    return jsonResult(response);
+  },
+};
+
+export const getChannelHistoryTool: ToolDefinition<GetChannelHistoryArgs> = {
+  name: "slack_get_channel_history",
+  description:
+    "Get messages from a channel, newest first, optionally within a time range",
+  access: "read",
+  inputSchema: {
+    type: "object",
+    properties: {
+      channel_id: {
+        type: "string",
+        description: "The ID of the channel",
+      },
+      limit: {
+        type: "number",
+        description:
+          "Number of messages to retrieve per page (default 10, ignored with auto_paginate)",
+        default: 10,
+      },
+      ...HISTORY_RANGE_PROPERTIES,
+    },
+    required: ["channel_id"],
+  },
+  async handler(args, { slack }) {
+    const options = historyOptions(args);
+    if (args.auto_paginate) {
+      const response = await slack.getAllChannelHistory(
+        args.channel_id,
+        maxMessages(args),
+        options,
+      );
+      return historyResult(slack, args, response);
+    }
+    const response = await slack.getChannelHistory(
+      args.channel_id,
+      args.limit,
+      options,
+    );
+    return historyResult(slack, args, withNextCursor(response));
+  },
+};
+
+export const getThreadRepliesTool: ToolDefinition<GetThreadRepliesArgs> = {
+  name: "slack_get_thread_replies",
+  description:
+    "Get replies in a message thread, oldest first, optionally within a time range",
+  access: "read",
+  inputSchema: {
+    type: "object",
+    properties: {
+      channel_id: {
+        type: "string",
+        description: "The ID of the channel containing the thread",
+      },
+      thread_ts: {
+        type: "string",
+        description: THREAD_TS_DESCRIPTION,
+      },
+      limit: {
+        type: "number",
+        description:
+          "Number of messages to retrieve per page (default 1000, ignored with auto_paginate)",
+      },
+      ...HISTORY_RANGE_PROPERTIES,
+    },
+    required: ["channel_id", "thread_ts"],
+  },
+  async handler(args, { slack }) {
+    const options = historyOptions(args);
+    if (args.auto_paginate) {
+      const response = await slack.getAllThreadReplies(
+        args.channel_id,
+        args.thread_ts,
+        maxMessages(args),
+        options,
+      );
+      return historyResult(slack, args, response);
+    }
+    const response = await slack.getThreadReplies(
+      args.channel_id,
+      args.thread_ts,
+      args.limit,
+      options,
+    );
+    return historyResult(slack, args, withNextCursor(response));
+  },
+};
@@ -0,0 +1,154 @@
+import { CallToolResult, Tool } from "@modelcontextprotocol/sdk/types.js";
+import { PendingActions } from "../approval.js";
+import { AuditLog } from "../audit.js";
+import { Principal } from "../auth.js";
+import { EventSource } from "../events.js";
+import { Policy, ToolAccess } from "../policy.js";
+import { MessageFormat, renderReadable } from "../readable.js";
+import { Redactor } from "../redaction.js";
+import { HistoryOptions, SlackClient } from "../slack-client.js";
+import { AccountLink } from "../slack-oauth.js";
+import { parseTimeBound } from "../time.js";
+
+// Everything a tool handler needs to talk to Slack
+export interface ToolContext {
+  slack: SlackClient;
+  // Authenticated caller on the HTTP transports; the local user on stdio
+  caller?: Principal;
+  // Per-user Slack sign-in, when the deployment has it configured
+  account?: AccountLink;
+  // Slack events received by the server, when it is set up to receive them
+  events?: EventSource;
+  // Write-safety policy, when the deployment has one
+  policy?: Policy;
+  // Messages held for approval by dry runs
+  approvals?: PendingActions;
+  // Hold every outbound message for approval, whatever the call asks
+  dryRun?: boolean;
+  // Ask the human at the client to approve an action, when the client
+  // supports elicitation. Resolves undefined when there is no answer.
+  elicit?: (message: string) => Promise<"accept" | "decline" | "cancel" | undefined>;
+  // Where every tool call is recorded
+  audit?: AuditLog;
+  // Masks secrets and personal data in what is read and written
+  redaction?: Redactor;
+}
+
+// What a held action would do, shown to the user before they approve it
+export interface ActionPreview {
+  summary: string;
+  text?: string;
+  [detail: string]: unknown;
+}
+
+// A tool is declared once: its MCP metadata plus the handler that runs it
+export interface ToolDefinition<Args = any> extends Tool {
+  handler: (args: Args, context: ToolContext) => Promise<CallToolResult>;
+  // Hide the tool when the deployment lacks what it needs
+  isAvailable?: (context: ToolContext) => boolean;
+  // What the tool does with the channel_id / channel_ids it is given, for
+  // the write-safety policy
+  access?: ToolAccess;
+  // Describe what the call would do without doing it; tools that have this
+  // can be dry run and held for approval
+  preview?: (args: Args, context: ToolContext) => Promise<ActionPreview>;
+}
+
+export function jsonResult(response: unknown): CallToolResult {
+  return {
+    content: [{ type: "text", text: JSON.stringify(response) }],
+  };
+}
+
+export const DRY_RUN_PROPERTY = {
+  type: "boolean",
+  description:
+    "Return a preview and an action_id instead of sending; the message is sent once slack_confirm_action is called with the action_id (default false)",
+};
+
+export const THREAD_TS_DESCRIPTION =
+  "The timestamp of the parent message in the format '1234567890.123456'. Timestamps in the format without the period can be converted by adding the period such that 6 numbers come after it.";
+
+// Ranges and paging accepted by the tools that read conversation history
+export interface HistoryRangeArgs {
+  oldest?: string;
+  latest?: string;
+  inclusive?: boolean;
+  cursor?: string;
+  auto_paginate?: boolean;
+  max_messages?: number;
+  format?: MessageFormat;
+}
+
+const DEFAULT_MAX_MESSAGES = 500;
+// Auto-pagination never collects more than this, whatever the caller asks
+const MAX_MESSAGES_CAP = 1000;
+
+export const HISTORY_RANGE_PROPERTIES = {
+  oldest: {
+    type: "string",
+    description:
+      "Only messages after this time: an ISO-8601 date or datetime, a Slack timestamp, or a relative time such as '24h', '7d', 'yesterday' or 'since Monday' (UTC)",
+  },
+  latest: {
+    type: "string",
+    description: "Only messages before this time, in the same formats as oldest",
+  },
+  inclusive: {
+    type: "boolean",
+    description: "Include messages exactly at oldest or latest (default false)",
+  },
+  cursor: {
+    type: "string",
+    description: "next_cursor from a previous call, to continue where it stopped",
+  },
+  auto_paginate: {
+    type: "boolean",
+    description:
+      "Follow cursors and return every message in the range, up to max_messages (default false)",
+  },
+  max_messages: {
+    type: "number",
+    description: `Most messages to collect when auto_paginate is set (default ${DEFAULT_MAX_MESSAGES}, max ${MAX_MESSAGES_CAP})`,
+  },
+  format: {
+    type: "string",
+    enum: ["raw", "readable"],
+    description:
+      "'raw' returns Slack's JSON as is; 'readable' resolves user and channel IDs to names, converts mrkdwn to Markdown, adds ISO times and drops noisy fields (default 'raw')",
+    default: "raw",
+  },
+};
+
+export function historyOptions(args: HistoryRangeArgs): HistoryOptions {
+  return {
+    oldest: parseTimeBound("oldest", args.oldest),
+    latest: parseTimeBound("latest", args.latest),
+    inclusive: args.inclusive,
+    cursor: args.cursor,
+  };
+}
+
+export function maxMessages(args: HistoryRangeArgs): number {
+  const requested = args.max_messages ?? DEFAULT_MAX_MESSAGES;
+  return Math.max(1, Math.min(Math.floor(requested), MAX_MESSAGES_CAP));
+}
+
+// Lift Slack's cursor to the top level so it is easy to pass back
+export function withNextCursor(response: any): any {
+  return {
+    ...response,
+    next_cursor: response.response_metadata?.next_cursor || undefined,
+  };
+}
+
+export async function historyResult(
+  slack: SlackClient,
+  args: HistoryRangeArgs,
+  response: any,
+): Promise<CallToolResult> {
+  if (args.format === "readable") {
+    return jsonResult(await renderReadable(slack, response));
+  }
+  return jsonResult(response);
+}
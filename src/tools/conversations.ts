@@ -0,0 +1,118 @@
+import { ErrorCode, McpError } from "@modelcontextprotocol/sdk/types.js";
+import { DRY_RUN_PROPERTY, ToolContext, ToolDefinition, jsonResult } from "./common.js";
+import { callTool, checkAllowed } from "./index.js";
+import {
+  MESSAGE_CONTENT_PROPERTIES,
+  MessageContentArgs,
+  contentPreview,
+  postMessageTool,
+} from "./messages.js";
+
+// Type definitions for tool arguments
+interface OpenConversationArgs {
+  user_ids: string[];
+}
+
+interface SendDmArgs extends MessageContentArgs {
+  user_id: string;
+  dry_run?: boolean;
+  confirm?: boolean;
+}
+
+// Slack allows group DMs of up to 8 people besides the app
+const MAX_CONVERSATION_USERS = 8;
+
+export const openConversationTool: ToolDefinition<OpenConversationArgs> = {
+  name: "slack_open_conversation",
+  description:
+    "Open a direct message with one user, or a group DM with several, and return its channel_id for the other tools. Reopens the existing conversation if there is one. Needs the im:write (or mpim:write) scope.",
+  access: "write",
+  inputSchema: {
+    type: "object",
+    properties: {
+      user_ids: {
+        type: "array",
+        items: { type: "string" },
+        description: `IDs of the users to talk to (1 to ${MAX_CONVERSATION_USERS})`,
+      },
+    },
+    required: ["user_ids"],
+  },
+  async handler(args, { slack }) {
+    const userIds = [...new Set(args.user_ids)];
+    if (
+      userIds.length === 0 ||
+      userIds.length > MAX_CONVERSATION_USERS ||
+      userIds.some((id) => typeof id !== "string" || id === "")
+    ) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        `user_ids must list 1 to ${MAX_CONVERSATION_USERS} user IDs`,
+      );
+    }
+    const response = await slack.openConversation(userIds);
+    return jsonResult({
+      ok: true,
+      channel_id: response.channel?.id,
+      already_open: response.already_open ?? false,
+    });
+  },
+};
+
+// What can be checked before the DM exists is checked before it is opened,
+// so that a refused message does not leave an empty DM behind
+function checkBeforeOpening(
+  args: Record<string, unknown>,
+  context: ToolContext,
+  options: { preview?: boolean } = {},
+) {
+  checkAllowed(postMessageTool.name, context);
+  context.policy?.authorizeUnopened(postMessageTool.name, args, options);
+}
+
+/**
+ * Opens the DM and posts with slack_post_message, so everything that
+ * applies to posting (policy, redaction, rate limits) applies to the DM too.
+ * Dry runs hold the DM itself, so nothing is opened until it is confirmed.
+ */
+export const sendDmTool: ToolDefinition<SendDmArgs> = {
+  name: "slack_send_dm",
+  description:
+    "Send a direct message to a user, opening the DM if needed. Needs the im:write and chat:write scopes.",
+  access: "write",
+  inputSchema: {
+    type: "object",
+    properties: {
+      user_id: {
+        type: "string",
+        description: "The ID of the user to message",
+      },
+      text: {
+        type: "string",
+        description: "The message text. Required unless blocks, compose or attachments are given.",
+      },
+      ...MESSAGE_CONTENT_PROPERTIES,
+      dry_run: DRY_RUN_PROPERTY,
+    },
+    required: ["user_id"],
+  },
+  async preview(args, context) {
+    const { user_id, dry_run, confirm, ...message } = args;
+    checkBeforeOpening(message, context, { preview: true });
+    return {
+      summary: `Send a direct message to <@${user_id}>`,
+      user_id,
+      ...(await contentPreview(context.slack, message)),
+    };
+  },
+  async handler(args, context) {
+    const { user_id, ...message } = args;
+    checkBeforeOpening(message, context);
+    const conversation = await context.slack.openConversation([user_id]);
+    return callTool(
+      postMessageTool.name,
+      { ...message, channel_id: conversation.channel?.id },
+      context,
+    );
+  },
+};
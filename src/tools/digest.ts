@@ -0,0 +1,86 @@
+import { ErrorCode, McpError } from "@modelcontextprotocol/sdk/types.js";
+import { buildChannelDigest } from "../digest.js";
+import { parseTimeBound } from "../time.js";
+import { HISTORY_RANGE_PROPERTIES, ToolDefinition, jsonResult, maxMessages } from "./common.js";
+
+// Type definitions for tool arguments
+interface ChannelDigestArgs {
+  channel_ids: string[];
+  oldest?: string;
+  latest?: string;
+  max_messages?: number;
+  max_threads?: number;
+  top?: number;
+}
+
+const MAX_DIGEST_CHANNELS = 20;
+const DEFAULT_OLDEST = "24h";
+const DEFAULT_MAX_THREADS = 10;
+const MAX_THREADS_CAP = 50;
+const DEFAULT_TOP = 10;
+const TOP_CAP = 50;
+
+function clamp(value: number | undefined, fallback: number, max: number): number {
+  return Math.max(0, Math.min(Math.floor(value ?? fallback), max));
+}
+
+export const channelDigestTool: ToolDefinition<ChannelDigestArgs> = {
+  name: "slack_channel_digest",
+  description:
+    "Digest of activity in one or more channels over a time window: most active threads, unanswered questions, decisions, action items, top participants and shared links. Built from the messages with fixed rules, so it is cheap to call every morning.",
+  access: "read",
+  inputSchema: {
+    type: "object",
+    properties: {
+      channel_ids: {
+        type: "array",
+        items: { type: "string" },
+        description: `IDs of the channels to include (at most ${MAX_DIGEST_CHANNELS})`,
+      },
+      oldest: {
+        ...HISTORY_RANGE_PROPERTIES.oldest,
+        description: `${HISTORY_RANGE_PROPERTIES.oldest.description}. Default '${DEFAULT_OLDEST}'`,
+      },
+      latest: HISTORY_RANGE_PROPERTIES.latest,
+      max_messages: {
+        type: "number",
+        description: "Most messages to read per channel (default 500, max 1000)",
+      },
+      max_threads: {
+        type: "number",
+        description: `Most active threads whose replies are read for decisions and action items (default ${DEFAULT_MAX_THREADS}, max ${MAX_THREADS_CAP})`,
+      },
+      top: {
+        type: "number",
+        description: `Entries per section of the digest (default ${DEFAULT_TOP}, max ${TOP_CAP})`,
+      },
+    },
+    required: ["channel_ids"],
+  },
+  async handler(args, { slack }) {
+    const channelIds = [...new Set(args.channel_ids)];
+    if (
+      channelIds.length === 0 ||
+      channelIds.some((id) => typeof id !== "string" || id === "")
+    ) {
+      throw new McpError(ErrorCode.InvalidParams, "channel_ids must be a list of channel IDs");
+    }
+    if (channelIds.length > MAX_DIGEST_CHANNELS) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        `At most ${MAX_DIGEST_CHANNELS} channels can be included in a digest`,
+      );
+    }
+
+    const digest = await buildChannelDigest(slack, channelIds, {
+      range: {
+        oldest: parseTimeBound("oldest", args.oldest ?? DEFAULT_OLDEST),
+        latest: parseTimeBound("latest", args.latest),
+      },
+      maxMessages: maxMessages(args),
+      maxThreads: clamp(args.max_threads, DEFAULT_MAX_THREADS, MAX_THREADS_CAP),
+      top: clamp(args.top, DEFAULT_TOP, TOP_CAP),
+    });
+    return jsonResult(digest);
+  },
+};
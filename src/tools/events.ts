@@ -0,0 +1,98 @@
+import { EVENT_TYPES, EventQuery, EventType } from "../events.js";
+import { ToolContext, ToolDefinition, jsonResult } from "./common.js";
+
+// Type definitions for tool arguments
+interface EventQueryArgs {
+  types?: EventType[];
+  channel_id?: string;
+  after?: string;
+  limit?: number;
+}
+
+interface WaitForEventArgs extends EventQueryArgs {
+  timeout_seconds?: number;
+}
+
+const DEFAULT_EVENT_LIMIT = 50;
+const MAX_EVENT_LIMIT = 200;
+const DEFAULT_WAIT_SECONDS = 30;
+// Stays under the server's time limit for a tool call
+const MAX_WAIT_SECONDS = 50;
+
+const EVENT_QUERY_PROPERTIES = {
+  types: {
+    type: "array",
+    items: { type: "string", enum: [...EVENT_TYPES] },
+    description: "Only these event types: 'message', 'app_mention' or 'reaction_added' (default: all)",
+  },
+  channel_id: {
+    type: "string",
+    description: "Only events in this channel",
+  },
+  after: {
+    type: "string",
+    description: "cursor from a previous call, to get only events that arrived since",
+  },
+  limit: {
+    type: "number",
+    description: `Most events to return (default ${DEFAULT_EVENT_LIMIT}, max ${MAX_EVENT_LIMIT})`,
+  },
+};
+
+// Without a channel_id, events are limited to the channels the policy lets
+// the tool read
+function eventQuery(args: EventQueryArgs, tool: string, context: ToolContext): EventQuery {
+  return {
+    after: args.after,
+    types: args.types?.filter((type) => EVENT_TYPES.includes(type)),
+    channel_id: args.channel_id,
+    scope: args.channel_id ? undefined : context.policy?.readScope(tool),
+    limit: Math.max(1, Math.min(Math.floor(args.limit ?? DEFAULT_EVENT_LIMIT), MAX_EVENT_LIMIT)),
+  };
+}
+
+function hasEvents(context: ToolContext): boolean {
+  return context.events !== undefined;
+}
+
+export const getRecentEventsTool: ToolDefinition<EventQueryArgs> = {
+  name: "slack_get_recent_events",
+  description:
+    "Get Slack events the server has received: new messages, mentions of the app and reactions, oldest first. Pass the returned cursor as `after` next time to see only newer events.",
+  access: "read",
+  inputSchema: {
+    type: "object",
+    properties: EVENT_QUERY_PROPERTIES,
+  },
+  isAvailable: hasEvents,
+  async handler(args, context) {
+    const page = await context.events!.recent(eventQuery(args, "slack_get_recent_events", context));
+    return jsonResult(page);
+  },
+};
+
+export const waitForEventTool: ToolDefinition<WaitForEventArgs> = {
+  name: "slack_wait_for_event",
+  description:
+    "Wait until a matching Slack event arrives (e.g. the app being mentioned) and return it. Without `after`, only events arriving after the call count. Returns no events and timed_out: true if nothing arrives in time.",
+  access: "read",
+  inputSchema: {
+    type: "object",
+    properties: {
+      ...EVENT_QUERY_PROPERTIES,
+      timeout_seconds: {
+        type: "number",
+        description: `How long to wait (default ${DEFAULT_WAIT_SECONDS}, max ${MAX_WAIT_SECONDS})`,
+      },
+    },
+  },
+  isAvailable: hasEvents,
+  async handler(args, context) {
+    const seconds = Math.max(0, Math.min(args.timeout_seconds ?? DEFAULT_WAIT_SECONDS, MAX_WAIT_SECONDS));
+    const page = await context.events!.wait(
+      eventQuery(args, "slack_wait_for_event", context),
+      seconds * 1000,
+    );
+    return jsonResult({ ...page, timed_out: page.events.length === 0 });
+  },
+};
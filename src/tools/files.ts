@@ -0,0 +1,254 @@
+import {
+  CallToolResult,
+  ErrorCode,
+  McpError,
+} from "@modelcontextprotocol/sdk/types.js";
+import { base64Decode, base64Encode } from "../encoding.js";
+import { ToolError } from "../errors.js";
+import {
+  DRY_RUN_PROPERTY,
+  THREAD_TS_DESCRIPTION,
+  ToolDefinition,
+  jsonResult,
+} from "./common.js";
+import { channelLabel } from "./messages.js";
+
+// Type definitions for tool arguments
+interface UploadFileArgs {
+  filename: string;
+  content?: string;
+  content_base64?: string;
+  resource?: { uri?: string; mimeType?: string; text?: string; blob?: string };
+  title?: string;
+  channel_id?: string;
+  thread_ts?: string;
+  initial_comment?: string;
+  alt_text?: string;
+  snippet_type?: string;
+  dry_run?: boolean;
+}
+
+interface GetFileArgs {
+  file_id: string;
+}
+
+// Larger files are described but not downloaded
+const MAX_DOWNLOAD_BYTES = 10 * 1024 * 1024;
+
+const TEXT_MIME_TYPES = [
+  "application/json",
+  "application/xml",
+  "application/javascript",
+  "application/x-yaml",
+  "application/yaml",
+  "application/csv",
+  "application/x-sh",
+];
+
+function isTextType(mimeType: string | undefined): boolean {
+  return !!mimeType && (mimeType.startsWith("text/") || TEXT_MIME_TYPES.includes(mimeType));
+}
+
+// Exactly one of the content inputs, as bytes
+function uploadContent(args: UploadFileArgs): Uint8Array<ArrayBuffer> {
+  const sources = [args.content, args.content_base64, args.resource].filter(
+    (source) => source !== undefined,
+  );
+  if (sources.length !== 1) {
+    throw new McpError(
+      ErrorCode.InvalidParams,
+      "Provide exactly one of content, content_base64 or resource",
+    );
+  }
+
+  try {
+    if (args.content !== undefined) {
+      return new TextEncoder().encode(args.content);
+    }
+    if (args.content_base64 !== undefined) {
+      return base64Decode(args.content_base64);
+    }
+    if (typeof args.resource!.blob === "string") {
+      return base64Decode(args.resource!.blob);
+    }
+  } catch {
+    throw new McpError(ErrorCode.InvalidParams, "File content is not valid base64");
+  }
+  if (typeof args.resource!.text === "string") {
+    return new TextEncoder().encode(args.resource!.text);
+  }
+  throw new McpError(ErrorCode.InvalidParams, "resource needs text or blob content");
+}
+
+export const uploadFileTool: ToolDefinition<UploadFileArgs> = {
+  name: "slack_upload_file",
+  description:
+    "Upload a file (text, CSV, image, ...) and optionally share it in a channel or thread",
+  access: "post",
+  inputSchema: {
+    type: "object",
+    properties: {
+      filename: {
+        type: "string",
+        description: "Name of the file including its extension, e.g. 'report.csv'",
+      },
+      content: {
+        type: "string",
+        description: "Text content of the file",
+      },
+      content_base64: {
+        type: "string",
+        description: "Binary content of the file, base64 encoded (e.g. an image)",
+      },
+      resource: {
+        type: "object",
+        description:
+          "An MCP resource to upload, as { uri, mimeType, text } or { uri, mimeType, blob }",
+        properties: {
+          uri: { type: "string" },
+          mimeType: { type: "string" },
+          text: { type: "string" },
+          blob: { type: "string" },
+        },
+      },
+      title: {
+        type: "string",
+        description: "Title shown in Slack (default: the filename)",
+      },
+      channel_id: {
+        type: "string",
+        description: "Channel to share the file in; without it the file stays private to the uploader",
+      },
+      thread_ts: {
+        type: "string",
+        description: `Share the file as a reply in this thread (needs channel_id). ${THREAD_TS_DESCRIPTION}`,
+      },
+      initial_comment: {
+        type: "string",
+        description: "Message posted with the file",
+      },
+      alt_text: {
+        type: "string",
+        description: "Description of an image for screen readers",
+      },
+      snippet_type: {
+        type: "string",
+        description: "Syntax highlighting for text snippets, e.g. 'python' or 'csv'",
+      },
+      dry_run: DRY_RUN_PROPERTY,
+    },
+    required: ["filename"],
+  },
+  async preview(args, { slack }) {
+    if (args.thread_ts && !args.channel_id) {
+      throw new McpError(ErrorCode.InvalidParams, "thread_ts needs channel_id");
+    }
+    const size = uploadContent(args).byteLength;
+    return {
+      summary: args.channel_id
+        ? `Upload ${args.filename} (${size} bytes) to ${await channelLabel(slack, args.channel_id)}`
+        : `Upload ${args.filename} (${size} bytes)`,
+      channel_id: args.channel_id,
+      thread_ts: args.thread_ts,
+      title: args.title,
+      text: args.initial_comment,
+    };
+  },
+  async handler(args, { slack }) {
+    if (args.thread_ts && !args.channel_id) {
+      throw new McpError(ErrorCode.InvalidParams, "thread_ts needs channel_id");
+    }
+    const response = await slack.uploadFile({
+      filename: args.filename,
+      content: uploadContent(args),
+      title: args.title,
+      channel_id: args.channel_id,
+      thread_ts: args.thread_ts,
+      initial_comment: args.initial_comment,
+      alt_text: args.alt_text,
+      snippet_type: args.snippet_type,
+    });
+    return jsonResult(response);
+  },
+};
+
+// The channels, private channels and DMs a file is shared in
+function fileChannels(file: any): string[] {
+  return [...(file.channels ?? []), ...(file.groups ?? []), ...(file.ims ?? [])];
+}
+
+export const getFileTool: ToolDefinition<GetFileArgs> = {
+  name: "slack_get_file",
+  description:
+    "Download a file shared in Slack, e.g. one attached to a message in channel history. Text files are returned as text, images as images and anything else as a binary resource.",
+  access: "read",
+  inputSchema: {
+    type: "object",
+    properties: {
+      file_id: {
+        type: "string",
+        description: "The ID of the file (the id of an entry in a message's files)",
+      },
+    },
+    required: ["file_id"],
+  },
+  async handler(args, { slack, policy }) {
+    const { file } = await slack.getFileInfo(args.file_id);
+    if (policy && !fileChannels(file).some((channel) => policy.allowsRead(channel, getFileTool.name))) {
+      throw new ToolError(
+        "policy_denied",
+        `File ${file.id} is not shared in any channel the policy lets ${getFileTool.name} read`,
+      );
+    }
+    const details = {
+      id: file.id,
+      name: file.name,
+      title: file.title,
+      mimetype: file.mimetype,
+      size: file.size,
+      permalink: file.permalink,
+    };
+
+    const url = file.url_private_download ?? file.url_private;
+    if (file.is_external || !url) {
+      throw new ToolError(
+        "file_not_hosted",
+        `File ${file.id} is stored outside Slack`,
+        `Open ${file.permalink ?? file.url_private} instead.`,
+      );
+    }
+    if (file.size > MAX_DOWNLOAD_BYTES) {
+      throw new ToolError(
+        "file_too_large",
+        `File ${file.id} is ${file.size} bytes; at most ${MAX_DOWNLOAD_BYTES} can be downloaded`,
+      );
+    }
+
+    const download = await slack.downloadFile(url);
+    // Without files:read Slack answers with its sign-in page instead
+    if (download.contentType?.startsWith("text/html") && file.mimetype !== "text/html") {
+      throw new ToolError(
+        "file_download_failed",
+        `Slack did not return the contents of file ${file.id}`,
+        "The Slack app needs the files:read scope to download files.",
+      );
+    }
+
+    const mimeType = file.mimetype ?? download.contentType ?? "application/octet-stream";
+    let content: CallToolResult["content"][number];
+    if (isTextType(mimeType)) {
+      content = { type: "text", text: new TextDecoder().decode(download.content) };
+    } else if (mimeType.startsWith("image/")) {
+      content = { type: "image", data: base64Encode(download.content), mimeType };
+    } else {
+      content = {
+        type: "resource",
+        resource: { uri: file.permalink ?? url, mimeType, blob: base64Encode(download.content) },
+      };
+    }
+
+    return {
+      content: [{ type: "text", text: JSON.stringify(details) }, content],
+    };
+  },
+};
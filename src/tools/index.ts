@@ -0,0 +1,219 @@
+import {
+  CallToolResult,
+  ErrorCode,
+  McpError,
+  Tool,
+} from "@modelcontextprotocol/sdk/types.js";
+import { listChannelsTool, getChannelHistoryTool, getThreadRepliesTool } from "./channels.js";
+import { signInTool, signOutTool } from "./account.js";
+import { cancelActionTool, confirmActionTool, holdForApproval } from "./approval.js";
+import { auditQueryTool } from "./audit.js";
+import { clearCacheTool } from "./cache.js";
+import { Policy, ToolAccess } from "../policy.js";
+import { RedactionCounts, reportRedactions } from "../redaction.js";
+import { ToolContext, ToolDefinition } from "./common.js";
+import { openConversationTool, sendDmTool } from "./conversations.js";
+import { channelDigestTool } from "./digest.js";
+import { getRecentEventsTool, waitForEventTool } from "./events.js";
+import { uploadFileTool, getFileTool } from "./files.js";
+import {
+  postMessageTool,
+  replyToThreadTool,
+  addReactionTool,
+  updateMessageTool,
+  deleteMessageTool,
+} from "./messages.js";
+import {
+  scheduleMessageTool,
+  listScheduledMessagesTool,
+  deleteScheduledMessageTool,
+} from "./schedule.js";
+import { searchMessagesTool } from "./search.js";
+import { getUsersTool, getUserProfileTool } from "./users.js";
+
+export { ToolContext, ToolDefinition } from "./common.js";
+
+// Every tool the server exposes, in the order they are advertised
+export const tools: ToolDefinition[] = [
+  listChannelsTool,
+  postMessageTool,
+  replyToThreadTool,
+  addReactionTool,
+  updateMessageTool,
+  deleteMessageTool,
+  openConversationTool,
+  sendDmTool,
+  scheduleMessageTool,
+  listScheduledMessagesTool,
+  deleteScheduledMessageTool,
+  confirmActionTool,
+  cancelActionTool,
+  uploadFileTool,
+  getFileTool,
+  getChannelHistoryTool,
+  getThreadRepliesTool,
+  channelDigestTool,
+  getRecentEventsTool,
+  waitForEventTool,
+  searchMessagesTool,
+  getUsersTool,
+  getUserProfileTool,
+  clearCacheTool,
+  auditQueryTool,
+  signInTool,
+  signOutTool,
+];
+
+// Whether both the caller's permissions and the policy allow a tool
+export function isAllowed(name: string, context?: ToolContext): boolean {
+  const allowed = context?.caller?.tools;
+  return (!allowed || allowed.includes(name)) && (context?.policy?.allowsTool(name) ?? true);
+}
+
+// Throw unless both the caller's permissions and the policy allow a tool
+export function checkAllowed(name: string, context: ToolContext) {
+  if (!isAllowed(name, context)) {
+    throw new McpError(
+      ErrorCode.InvalidRequest,
+      context.policy?.allowsTool(name) === false
+        ? `Tool ${name} is not allowed by the policy`
+        : `Tool ${name} is not allowed for ${context.caller?.name}`,
+    );
+  }
+}
+
+function isAvailable(tool: ToolDefinition, context?: ToolContext): boolean {
+  return !tool.isAvailable || (context !== undefined && tool.isAvailable(context));
+}
+
+const CONFIRM_PROPERTY = {
+  type: "boolean",
+  description: "Set to true once the user has confirmed the change, when the policy asks for it",
+};
+
+// Writes take `confirm` when the policy may ask for confirmation
+function withPolicy(tool: Tool, access: ToolAccess | undefined, policy?: Policy): Tool {
+  if (!policy?.usesConfirmation || !access || access === "read") {
+    return tool;
+  }
+  return {
+    ...tool,
+    inputSchema: {
+      ...tool.inputSchema,
+      properties: { ...tool.inputSchema.properties, confirm: CONFIRM_PROPERTY },
+    },
+  };
+}
+
+export function listTools(context?: ToolContext): Tool[] {
+  return tools
+    .filter((tool) => isAvailable(tool, context) && isAllowed(tool.name, context))
+    .map(({ handler, isAvailable, access, preview, ...tool }) => withPolicy(tool, access, context?.policy));
+}
+
+function matchesType(value: unknown, type: string): boolean {
+  switch (type) {
+    case "string":
+      return typeof value === "string";
+    case "number":
+      return typeof value === "number" && Number.isFinite(value);
+    case "integer":
+      return Number.isInteger(value);
+    case "boolean":
+      return typeof value === "boolean";
+    case "array":
+      return Array.isArray(value);
+    case "object":
+      return typeof value === "object" && value !== null && !Array.isArray(value);
+    default:
+      return true;
+  }
+}
+
+// Check arguments against the tool's input schema before running it
+function validateArguments(tool: ToolDefinition, args: Record<string, unknown>) {
+  const required = (tool.inputSchema.required ?? []) as string[];
+  const missing = required.filter(
+    (name) => args[name] === undefined || args[name] === null || args[name] === "",
+  );
+  if (missing.length > 0) {
+    throw new McpError(
+      ErrorCode.InvalidParams,
+      `Missing required arguments: ${missing.join(", ")}`,
+    );
+  }
+
+  const properties = (tool.inputSchema.properties ?? {}) as Record<
+    string,
+    { type?: string; enum?: unknown[] }
+  >;
+  for (const [name, value] of Object.entries(args)) {
+    const property = properties[name];
+    if (!property || value === undefined) {
+      continue;
+    }
+    if (property.type && !matchesType(value, property.type)) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        `Invalid argument ${name}: expected ${property.type}`,
+      );
+    }
+    if (property.enum && !property.enum.includes(value)) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        `Invalid argument ${name}: expected one of ${property.enum.join(", ")}`,
+      );
+    }
+  }
+}
+
+/**
+ * Run a tool by name, or hold it for approval when it is dry run. Unknown
+ * tools and invalid arguments are protocol errors and throw McpError; policy
+ * denials and failures while the tool runs are thrown as-is.
+ */
+export async function callTool(
+  name: string,
+  args: Record<string, unknown> | undefined,
+  context: ToolContext,
+): Promise<CallToolResult> {
+  const tool = tools.find((candidate) => candidate.name === name);
+  if (!tool || !isAvailable(tool, context)) {
+    throw new McpError(ErrorCode.InvalidParams, `Unknown tool: ${name}`);
+  }
+  checkAllowed(name, context);
+  let toolArgs = args ?? {};
+  validateArguments(tool, toolArgs);
+
+  // Sensitive data is masked or refused before the policy or Slack see it
+  const { redaction } = context;
+  let outbound: RedactionCounts | undefined;
+  if (redaction && tool.access && tool.access !== "read") {
+    ({ args: toolArgs, counts: outbound } = redaction.checkOutbound(toolArgs));
+  }
+
+  const result = await execute(tool, toolArgs, context);
+  if (!redaction) {
+    return result;
+  }
+  const inbound: RedactionCounts = {};
+  return reportRedactions(
+    tool.access === "read" ? redaction.maskResult(result, inbound) : result,
+    { inbound, outbound },
+  );
+}
+
+async function execute(
+  tool: ToolDefinition,
+  args: Record<string, unknown>,
+  context: ToolContext,
+): Promise<CallToolResult> {
+  if (tool.preview && (args.dry_run === true || context.dryRun)) {
+    // Approval stands in for the policy's confirmation, and nothing is
+    // counted until the message is actually sent
+    context.policy?.authorize(tool.name, tool.access, args, { preview: true });
+    return holdForApproval(tool, args, context);
+  }
+  context.policy?.authorize(tool.name, tool.access, args);
+  return tool.handler(args, context);
+}
@@ -0,0 +1,414 @@
+import { ErrorCode, McpError } from "@modelcontextprotocol/sdk/types.js";
+import {
+  COMPOSE_SCHEMA,
+  ComposeItem,
+  composeBlocks,
+  fallbackText,
+  validateBlocks,
+} from "../block-kit.js";
+import { ToolError } from "../errors.js";
+import {
+  MAX_MESSAGE_LENGTH,
+  markdownToMrkdwn,
+  resolveMentions,
+  splitMessage,
+} from "../mrkdwn.js";
+import { MessageOptions, SlackClient } from "../slack-client.js";
+import {
+  ActionPreview,
+  DRY_RUN_PROPERTY,
+  THREAD_TS_DESCRIPTION,
+  ToolContext,
+  ToolDefinition,
+  jsonResult,
+} from "./common.js";
+
+// Type definitions for tool arguments
+export interface MessageContentArgs {
+  text?: string;
+  blocks?: any[];
+  attachments?: any[];
+  compose?: ComposeItem[];
+  convert_markdown?: boolean;
+  broadcast?: boolean;
+}
+
+interface PostMessageArgs extends MessageContentArgs {
+  channel_id: string;
+  dry_run?: boolean;
+}
+
+interface ReplyToThreadArgs extends MessageContentArgs {
+  channel_id: string;
+  thread_ts: string;
+  dry_run?: boolean;
+}
+
+interface UpdateMessageArgs extends MessageContentArgs {
+  channel_id: string;
+  ts: string;
+  dry_run?: boolean;
+}
+
+interface DeleteMessageArgs {
+  channel_id: string;
+  ts: string;
+}
+
+interface AddReactionArgs {
+  channel_id: string;
+  timestamp: string;
+  reaction: string;
+}
+
+export const MESSAGE_CONTENT_PROPERTIES = {
+  blocks: {
+    type: "array",
+    description:
+      "Block Kit blocks as JSON (at most 50). text is then only the notification fallback and is derived from the blocks if omitted.",
+    items: { type: "object" },
+  },
+  attachments: {
+    type: "array",
+    description: "Legacy secondary attachments, e.g. [{\"color\": \"#36a64f\", \"text\": \"...\"}]",
+    items: { type: "object" },
+  },
+  compose: COMPOSE_SCHEMA,
+  convert_markdown: {
+    type: "boolean",
+    description:
+      "Convert Markdown in text to Slack mrkdwn and link @names and #channels (default true). Set false to send text exactly as given.",
+    default: true,
+  },
+  broadcast: {
+    type: "boolean",
+    description:
+      "Turn @here, @channel and @everyone in text into notifications for the whole channel (default false: they stay plain text). Only set this when the user asked for a broadcast.",
+    default: false,
+  },
+};
+
+// Work out text, blocks and attachments from whichever inputs were given
+export async function messageContent(
+  slack: SlackClient,
+  args: MessageContentArgs,
+): Promise<{ text?: string; options: MessageOptions }> {
+  if (args.blocks && args.compose) {
+    throw new McpError(ErrorCode.InvalidParams, "Pass either blocks or compose, not both");
+  }
+
+  let blocks = args.blocks;
+  if (args.compose) {
+    blocks = composeBlocks(args.compose);
+  } else if (blocks) {
+    validateBlocks(blocks);
+  }
+
+  let text = args.text;
+  if (text && args.convert_markdown !== false) {
+    text = markdownToMrkdwn(text, await resolveMentions(slack, text), {
+      broadcast: args.broadcast === true,
+    });
+  }
+  text = text || (blocks ? fallbackText(blocks) : undefined);
+  if (!text && !blocks?.length && !args.attachments?.length) {
+    throw new McpError(
+      ErrorCode.InvalidParams,
+      "Provide text, blocks, compose or attachments",
+    );
+  }
+  return { text, options: { blocks, attachments: args.attachments } };
+}
+
+// Text that cannot be split into continuations must fit one message
+export function requireSingleMessage(text: string | undefined, what: string) {
+  if (text && text.length > MAX_MESSAGE_LENGTH) {
+    throw new McpError(
+      ErrorCode.InvalidParams,
+      `text is ${text.length} characters; ${what} can have at most ${MAX_MESSAGE_LENGTH}`,
+    );
+  }
+}
+
+// Text that is too long for one message is sent in parts; rich messages
+// are sent as one
+function messageParts(content: { text?: string; options: MessageOptions }): (string | undefined)[] {
+  return content.text && !content.options.blocks && !content.options.attachments
+    ? splitMessage(content.text)
+    : [content.text];
+}
+
+/**
+ * Post a message, splitting text that is too long for one message into
+ * replies threaded under the first part.
+ */
+async function postInParts(
+  slack: SlackClient,
+  channel_id: string,
+  thread_ts: string | undefined,
+  content: { text?: string; options: MessageOptions },
+) {
+  const parts = messageParts(content);
+
+  const first = thread_ts
+    ? await slack.postReply(channel_id, thread_ts, parts[0], content.options)
+    : await slack.postMessage(channel_id, parts[0], content.options);
+  if (parts.length === 1) {
+    return first;
+  }
+
+  const continuations: string[] = [];
+  for (const part of parts.slice(1)) {
+    const reply = await slack.postReply(channel_id, thread_ts ?? first.ts!, part);
+    continuations.push(reply.ts!);
+  }
+  return { ...first, continuations };
+}
+
+// The message exactly as it would be sent, for dry runs
+export async function contentPreview(
+  slack: SlackClient,
+  args: MessageContentArgs,
+): Promise<Omit<ActionPreview, "summary">> {
+  const content = await messageContent(slack, args);
+  const parts = messageParts(content).length;
+  return {
+    text: content.text,
+    blocks: content.options.blocks,
+    attachments: content.options.attachments,
+    parts: parts > 1 ? parts : undefined,
+  };
+}
+
+// How a preview names the channel a message goes to
+export async function channelLabel(slack: SlackClient, channel_id: string): Promise<string> {
+  const info = await slack.getChannelInfo(channel_id);
+  return info.channel?.is_im
+    ? `the DM with <@${info.channel.user}>`
+    : info.channel?.name
+      ? `#${info.channel.name}`
+      : channel_id;
+}
+
+async function messagePreview(
+  slack: SlackClient,
+  channel_id: string,
+  thread_ts: string | undefined,
+  args: MessageContentArgs,
+): Promise<ActionPreview> {
+  const content = await contentPreview(slack, args);
+  const channel = await channelLabel(slack, channel_id);
+  return {
+    summary: thread_ts ? `Reply in a thread in ${channel}` : `Post a message to ${channel}`,
+    channel_id,
+    thread_ts,
+    ...content,
+  };
+}
+
+export const postMessageTool: ToolDefinition<PostMessageArgs> = {
+  name: "slack_post_message",
+  description: "Post a new message to a Slack channel",
+  access: "post",
+  inputSchema: {
+    type: "object",
+    properties: {
+      channel_id: {
+        type: "string",
+        description: "The ID of the channel to post to",
+      },
+      text: {
+        type: "string",
+        description:
+          "The message text to post. Required unless blocks, compose or attachments are given.",
+      },
+      ...MESSAGE_CONTENT_PROPERTIES,
+      dry_run: DRY_RUN_PROPERTY,
+    },
+    required: ["channel_id"],
+  },
+  preview: (args, { slack }) => messagePreview(slack, args.channel_id, undefined, args),
+  async handler(args, { slack }) {
+    const content = await messageContent(slack, args);
+    const response = await postInParts(slack, args.channel_id, undefined, content);
+    return jsonResult(response);
+  },
+};
+
+export const replyToThreadTool: ToolDefinition<ReplyToThreadArgs> = {
+  name: "slack_reply_to_thread",
+  description: "Reply to a specific message thread in Slack",
+  access: "post",
+  inputSchema: {
+    type: "object",
+    properties: {
+      channel_id: {
+        type: "string",
+        description: "The ID of the channel containing the thread",
+      },
+      thread_ts: {
+        type: "string",
+        description: THREAD_TS_DESCRIPTION,
+      },
+      text: {
+        type: "string",
+        description:
+          "The reply text. Required unless blocks, compose or attachments are given.",
+      },
+      ...MESSAGE_CONTENT_PROPERTIES,
+      dry_run: DRY_RUN_PROPERTY,
+    },
+    required: ["channel_id", "thread_ts"],
+  },
+  preview: (args, { slack }) => messagePreview(slack, args.channel_id, args.thread_ts, args),
+  async handler(args, { slack }) {
+    const content = await messageContent(slack, args);
+    const response = await postInParts(
+      slack,
+      args.channel_id,
+      args.thread_ts,
+      content,
+    );
+    return jsonResult(response);
+  },
+};
+
+export const addReactionTool: ToolDefinition<AddReactionArgs> = {
+  name: "slack_add_reaction",
+  description: "Add a reaction emoji to a message",
+  access: "write",
+  inputSchema: {
+    type: "object",
+    properties: {
+      channel_id: {
+        type: "string",
+        description: "The ID of the channel containing the message",
+      },
+      timestamp: {
+        type: "string",
+        description: "The timestamp of the message to react to",
+      },
+      reaction: {
+        type: "string",
+        description: "The name of the emoji reaction (without ::)",
+      },
+    },
+    required: ["channel_id", "timestamp", "reaction"],
+  },
+  async handler(args, { slack }) {
+    const response = await slack.addReaction(
+      args.channel_id,
+      args.timestamp,
+      args.reaction,
+    );
+    return jsonResult(response);
+  },
+};
+
+/**
+ * Only let callers change messages this server posted for them, unless they
+ * are admins. Stops an agent from rewriting what people, or other callers,
+ * said.
+ */
+async function requirePostedByServer(
+  { slack, caller }: ToolContext,
+  channel_id: string,
+  ts: string,
+) {
+  if (caller?.admin) {
+    return;
+  }
+  const poster = await slack.messagePoster(channel_id, ts);
+  if (poster === undefined) {
+    throw new ToolError(
+      "not_posted_by_server",
+      `Message ${ts} in ${channel_id} was not posted by this server`,
+      "Only messages sent with slack_post_message or slack_reply_to_thread can be edited or deleted. Admin callers may change other messages.",
+    );
+  }
+  if (poster !== (caller?.id ?? "")) {
+    throw new ToolError(
+      "not_posted_by_caller",
+      `Message ${ts} in ${channel_id} was posted for another caller`,
+      "Callers can only edit or delete their own messages. Admin callers may change other messages.",
+    );
+  }
+}
+
+export const updateMessageTool: ToolDefinition<UpdateMessageArgs> = {
+  name: "slack_update_message",
+  description:
+    "Edit a message this server posted earlier, replacing its text or blocks",
+  access: "write",
+  inputSchema: {
+    type: "object",
+    properties: {
+      channel_id: {
+        type: "string",
+        description: "The ID of the channel containing the message",
+      },
+      ts: {
+        type: "string",
+        description: "The timestamp of the message to edit",
+      },
+      text: {
+        type: "string",
+        description:
+          "The new message text. Required unless blocks, compose or attachments are given.",
+      },
+      ...MESSAGE_CONTENT_PROPERTIES,
+      dry_run: DRY_RUN_PROPERTY,
+    },
+    required: ["channel_id", "ts"],
+  },
+  async preview(args, context) {
+    await requirePostedByServer(context, args.channel_id, args.ts);
+    const { text, options } = await messageContent(context.slack, args);
+    requireSingleMessage(text, "an edited message");
+    return {
+      summary: `Edit message ${args.ts} in ${await channelLabel(context.slack, args.channel_id)}`,
+      channel_id: args.channel_id,
+      ts: args.ts,
+      text,
+      blocks: options.blocks,
+      attachments: options.attachments,
+    };
+  },
+  async handler(args, context) {
+    await requirePostedByServer(context, args.channel_id, args.ts);
+    const { text, options } = await messageContent(context.slack, args);
+    requireSingleMessage(text, "an edited message");
+    const response = await context.slack.updateMessage(
+      args.channel_id,
+      args.ts,
+      text,
+      options,
+    );
+    return jsonResult(response);
+  },
+};
+
+export const deleteMessageTool: ToolDefinition<DeleteMessageArgs> = {
+  name: "slack_delete_message",
+  description: "Delete a message this server posted earlier",
+  access: "write",
+  inputSchema: {
+    type: "object",
+    properties: {
+      channel_id: {
+        type: "string",
+        description: "The ID of the channel containing the message",
+      },
+      ts: {
+        type: "string",
+        description: "The timestamp of the message to delete",
+      },
+    },
+    required: ["channel_id", "ts"],
+  },
+  async handler(args, context) {
+    await requirePostedByServer(context, args.channel_id, args.ts);
+    const response = await context.slack.deleteMessage(args.channel_id, args.ts);
+    return jsonResult(response);
+  },
+};
@@ -0,0 +1,260 @@
+import { ErrorCode, McpError } from "@modelcontextprotocol/sdk/types.js";
+import { SlackClient } from "../slack-client.js";
+import { isValidTimeZone, parseFutureTime, parseTimeBound } from "../time.js";
+import {
+  DRY_RUN_PROPERTY,
+  THREAD_TS_DESCRIPTION,
+  ToolDefinition,
+  jsonResult,
+} from "./common.js";
+import {
+  MESSAGE_CONTENT_PROPERTIES,
+  MessageContentArgs,
+  channelLabel,
+  messageContent,
+  requireSingleMessage,
+} from "./messages.js";
+
+// Type definitions for tool arguments
+interface ScheduleMessageArgs extends MessageContentArgs {
+  channel_id: string;
+  post_at: string;
+  timezone?: string;
+  user_id?: string;
+  thread_ts?: string;
+  dry_run?: boolean;
+}
+
+interface ListScheduledMessagesArgs {
+  channel_id?: string;
+  oldest?: string;
+  latest?: string;
+  limit?: number;
+  cursor?: string;
+}
+
+interface DeleteScheduledMessageArgs {
+  channel_id: string;
+  scheduled_message_id: string;
+}
+
+// Slack refuses to schedule messages further ahead than this
+const MAX_SCHEDULE_DAYS = 120;
+
+/**
+ * Pick the time zone post_at is read in: the explicit argument, else the
+ * Slack time zone of user_id (or of channel_id when it is a user), else UTC.
+ */
+async function resolveTimeZone(
+  slack: SlackClient,
+  args: ScheduleMessageArgs,
+): Promise<string> {
+  if (args.timezone) {
+    if (!isValidTimeZone(args.timezone)) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        `Unknown time zone "${args.timezone}". Use an IANA name such as "Europe/Berlin".`,
+      );
+    }
+    return args.timezone;
+  }
+
+  const userId = args.user_id ?? (/^[UW]/.test(args.channel_id) ? args.channel_id : undefined);
+  if (userId) {
+    try {
+      const { user } = await slack.getUserInfo(userId);
+      if (user?.tz && isValidTimeZone(user.tz)) {
+        return user.tz;
+      }
+    } catch (error) {
+      console.error(`Could not look up the time zone of ${userId}:`, error);
+    }
+  }
+  return "UTC";
+}
+
+function toIso(seconds: number | undefined): string | undefined {
+  return seconds === undefined ? undefined : new Date(seconds * 1000).toISOString();
+}
+
+// post_at as Unix seconds, within the window Slack accepts
+async function resolvePostAt(
+  slack: SlackClient,
+  args: ScheduleMessageArgs,
+): Promise<{ timeZone: string; postAt: number }> {
+  const timeZone = await resolveTimeZone(slack, args);
+  const postAt = parseFutureTime(args.post_at, timeZone);
+  if (postAt === undefined) {
+    throw new McpError(
+      ErrorCode.InvalidParams,
+      `Could not understand post_at "${args.post_at}". Try "9am tomorrow", "friday 16:30" or "in 2 hours".`,
+    );
+  }
+  const now = Date.now() / 1000;
+  if (postAt <= now) {
+    throw new McpError(
+      ErrorCode.InvalidParams,
+      `post_at ${toIso(postAt)} is in the past`,
+    );
+  }
+  if (postAt > now + MAX_SCHEDULE_DAYS * 24 * 60 * 60) {
+    throw new McpError(
+      ErrorCode.InvalidParams,
+      `post_at ${toIso(postAt)} is more than ${MAX_SCHEDULE_DAYS} days ahead`,
+    );
+  }
+  return { timeZone, postAt };
+}
+
+export const scheduleMessageTool: ToolDefinition<ScheduleMessageArgs> = {
+  name: "slack_schedule_message",
+  description:
+    "Schedule a message to be posted to a channel or thread at a later time",
+  access: "post",
+  inputSchema: {
+    type: "object",
+    properties: {
+      channel_id: {
+        type: "string",
+        description: "The ID of the channel to post to",
+      },
+      post_at: {
+        type: "string",
+        description:
+          "When to post: e.g. '9am tomorrow', 'friday 16:30', 'next monday', 'in 2 hours', '2024-06-03 09:00' or an ISO-8601 datetime with offset. A day without a time means 9am.",
+      },
+      timezone: {
+        type: "string",
+        description:
+          "IANA time zone for post_at, e.g. 'America/New_York'. Defaults to the Slack time zone of user_id, else UTC.",
+      },
+      user_id: {
+        type: "string",
+        description:
+          "User whose Slack time zone post_at is read in (defaults to channel_id when that is a user ID)",
+      },
+      thread_ts: {
+        type: "string",
+        description: `Post as a reply in this thread. ${THREAD_TS_DESCRIPTION}`,
+      },
+      text: {
+        type: "string",
+        description:
+          "The message text. Required unless blocks, compose or attachments are given.",
+      },
+      ...MESSAGE_CONTENT_PROPERTIES,
+      dry_run: DRY_RUN_PROPERTY,
+    },
+    required: ["channel_id", "post_at"],
+  },
+  async preview(args, { slack }) {
+    const { timeZone, postAt } = await resolvePostAt(slack, args);
+    const { text, options } = await messageContent(slack, args);
+    requireSingleMessage(text, "a scheduled message");
+    return {
+      summary: `Schedule a message to ${await channelLabel(slack, args.channel_id)} for ${toIso(postAt)}`,
+      channel_id: args.channel_id,
+      thread_ts: args.thread_ts,
+      timezone: timeZone,
+      text,
+      blocks: options.blocks,
+      attachments: options.attachments,
+    };
+  },
+  async handler(args, { slack }) {
+    const { timeZone, postAt } = await resolvePostAt(slack, args);
+    const { text, options } = await messageContent(slack, args);
+    requireSingleMessage(text, "a scheduled message");
+    const response = await slack.scheduleMessage(args.channel_id, postAt, text, {
+      ...options,
+      thread_ts: args.thread_ts,
+    });
+    return jsonResult({
+      ...response,
+      post_at_iso: toIso(response.post_at ?? postAt),
+      timezone: timeZone,
+    });
+  },
+};
+
+export const listScheduledMessagesTool: ToolDefinition<ListScheduledMessagesArgs> = {
+  name: "slack_list_scheduled_messages",
+  description: "List messages scheduled by this app that have not been posted yet",
+  access: "read",
+  inputSchema: {
+    type: "object",
+    properties: {
+      channel_id: {
+        type: "string",
+        description: "Only list messages scheduled for this channel",
+      },
+      oldest: {
+        type: "string",
+        description:
+          "Only messages posting after this time (ISO-8601, Slack timestamp or e.g. '24h')",
+      },
+      latest: {
+        type: "string",
+        description: "Only messages posting before this time, in the same formats",
+      },
+      limit: {
+        type: "number",
+        description: "Maximum number of messages to return (default 100)",
+      },
+      cursor: {
+        type: "string",
+        description: "Pagination cursor for next page of results",
+      },
+    },
+  },
+  async handler(args, { slack, policy }) {
+    const response = await slack.listScheduledMessages({
+      channel: args.channel_id,
+      oldest: parseTimeBound("oldest", args.oldest),
+      latest: parseTimeBound("latest", args.latest),
+      limit: args.limit,
+      cursor: args.cursor,
+    });
+    return jsonResult({
+      ...response,
+      // Without a channel_id, messages for channels the policy hides are left out
+      scheduled_messages: response.scheduled_messages
+        ?.filter(
+          (message: any) =>
+            policy?.allowsRead(message.channel_id, listScheduledMessagesTool.name) ?? true,
+        )
+        .map((message: any) => ({
+          ...message,
+          post_at_iso: toIso(message.post_at),
+        })),
+    });
+  },
+};
+
+export const deleteScheduledMessageTool: ToolDefinition<DeleteScheduledMessageArgs> = {
+  name: "slack_delete_scheduled_message",
+  description: "Cancel a scheduled message before it is posted",
+  access: "write",
+  inputSchema: {
+    type: "object",
+    properties: {
+      channel_id: {
+        type: "string",
+        description: "The ID of the channel the message is scheduled for",
+      },
+      scheduled_message_id: {
+        type: "string",
+        description:
+          "The scheduled_message_id returned by slack_schedule_message or slack_list_scheduled_messages",
+      },
+    },
+    required: ["channel_id", "scheduled_message_id"],
+  },
+  async handler(args, { slack }) {
+    const response = await slack.deleteScheduledMessage(
+      args.channel_id,
+      args.scheduled_message_id,
+    );
+    return jsonResult(response);
+  },
+};
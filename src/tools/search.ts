@@ -0,0 +1,82 @@
+import { scanSearch } from "../search.js";
+import { ToolDefinition, jsonResult } from "./common.js";
+
+// Type definitions for tool arguments
+interface SearchMessagesArgs {
+  query: string;
+  sort?: "score" | "timestamp";
+  sort_dir?: "asc" | "desc";
+  count?: number;
+  page?: number;
+}
+
+// Drop the matches in channels the policy does not let the caller read.
+// Slack's totals and paging still count them.
+function withoutUnreadable(response: any, readable: (channelId: string) => boolean): any {
+  const matches: any[] | undefined = response.messages?.matches;
+  if (!matches) {
+    return response;
+  }
+  const kept = matches.filter((match) => readable(match.channel?.id));
+  return {
+    ...response,
+    messages: { ...response.messages, matches: kept, withheld: matches.length - kept.length },
+  };
+}
+
+export const searchMessagesTool: ToolDefinition<SearchMessagesArgs> = {
+  name: "slack_search_messages",
+  description:
+    "Search messages across the workspace. Uses Slack search when signed in with a user token; otherwise scans the configured channels' recent history.",
+  access: "read",
+  inputSchema: {
+    type: "object",
+    properties: {
+      query: {
+        type: "string",
+        description:
+          "Search terms with optional Slack modifiers: in:#channel or in:C123, from:@name or from:U123, before:/after:/on:/during: with YYYY-MM-DD, YYYY-MM, today or yesterday, has:link, has:reaction, has:pin. Quote phrases with \"...\".",
+      },
+      sort: {
+        type: "string",
+        enum: ["score", "timestamp"],
+        description:
+          "Order by relevance or time (default score; channel scans always sort by time)",
+        default: "score",
+      },
+      sort_dir: {
+        type: "string",
+        enum: ["desc", "asc"],
+        description: "Sort direction (default desc)",
+        default: "desc",
+      },
+      count: {
+        type: "number",
+        description: "Results per page (default 20, max 100)",
+        default: 20,
+      },
+      page: {
+        type: "number",
+        description: "Page of results to return, starting at 1",
+        default: 1,
+      },
+    },
+    required: ["query"],
+  },
+  async handler(args, { slack, policy }) {
+    const options = {
+      sort: args.sort,
+      sort_dir: args.sort_dir,
+      count: args.count,
+      page: args.page,
+    };
+    const readable = (channelId: string) =>
+      policy?.allowsRead(channelId, searchMessagesTool.name) ?? true;
+
+    if (await slack.isUserToken()) {
+      const response = await slack.searchMessages(args.query, options);
+      return jsonResult({ mode: "search", ...withoutUnreadable(response, readable) });
+    }
+    return jsonResult(await scanSearch(slack, args.query, options, readable));
+  },
+};
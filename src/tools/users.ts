@@ -0,0 +1,56 @@
+import { ToolDefinition, jsonResult } from "./common.js";
+
+// Type definitions for tool arguments
+interface GetUsersArgs {
+  cursor?: string;
+  limit?: number;
+}
+
+interface GetUserProfileArgs {
+  user_id: string;
+}
+
+export const getUsersTool: ToolDefinition<GetUsersArgs> = {
+  name: "slack_get_users",
+  description:
+    "Get a list of all users in the workspace with their basic profile information",
+  access: "read",
+  inputSchema: {
+    type: "object",
+    properties: {
+      cursor: {
+        type: "string",
+        description: "Pagination cursor for next page of results",
+      },
+      limit: {
+        type: "number",
+        description: "Maximum number of users to return (default 100, max 200)",
+        default: 100,
+      },
+    },
+  },
+  async handler(args, { slack }) {
+    const response = await slack.getUsers(args.limit, args.cursor);
+    return jsonResult(response);
+  },
+};
+
+export const getUserProfileTool: ToolDefinition<GetUserProfileArgs> = {
+  name: "slack_get_user_profile",
+  description: "Get detailed profile information for a specific user",
+  access: "read",
+  inputSchema: {
+    type: "object",
+    properties: {
+      user_id: {
+        type: "string",
+        description: "The ID of the user",
+      },
+    },
+    required: ["user_id"],
+  },
+  async handler(args, { slack }) {
+    const response = await slack.getUserProfile(args.user_id);
+    return jsonResult(response);
+  },
+};